@@ -1,30 +1,136 @@
-import { Log } from '@microsoft/sp-core-library';
-import { BaseApplicationCustomizer } from '@microsoft/sp-application-base';
-import { SPHttpClient } from '@microsoft/sp-http';
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { Log, Text } from '@microsoft/sp-core-library';
+import { BaseApplicationCustomizer, PlaceholderContent, PlaceholderName } from '@microsoft/sp-application-base';
+import { ThemeChangedEventArgs, ThemeProvider } from '@microsoft/sp-component-base';
+import { SPPermission } from '@microsoft/sp-page-context';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
 import { INavConfig, DEFAULT_NAV_CONFIG } from './INavConfig';
+import { ISiteMatchResult, SiteMatcher } from './helpers/SiteMatcher';
+import { IConfigWarning, IJsonObject, validateNavConfig } from './helpers/ConfigValidator';
+import { ConfigLayer, ConfigResolver, IConfigLayerInfo, IResolvedConfig } from './helpers/ConfigResolver';
+import { CacheStorageType, StorageCache } from './helpers/StorageCache';
+import { evaluateActivation, IActivationResult } from './helpers/Activation';
+import { getNavTree, INavNode, INavTree } from './helpers/NavApi';
+import { GlobalHubNavigation, INavLinkState } from './components/GlobalHubNav';
+import { NavObserver } from './helpers/NavObserver';
+import { waitForStableElement } from './helpers/DomWait';
+import { allSelectors, countSelectorMatches, findMatchingSelector, ISelectorMatchCount, resolveSelectors, SelectorSet } from './helpers/SelectorRegistry';
+import { DebugTrace, isDebugRequested } from './helpers/DebugTrace';
+import { DebugPanel } from './components/DebugPanel';
+import { ConfigEditor } from './components/ConfigEditor';
+import { ConfigChannel } from './helpers/ConfigChannel';
+import { applyConfigChanges, IConfigFile, isEditRequested, readConfigFile, saveConfigFile } from './helpers/ConfigFile';
+import { HubSwitcher } from './components/HubSwitcher';
+import { Breadcrumb } from './components/Breadcrumb';
+import { findStyleRule, getLinkFacts, styleRuleClasses, usesHubRelation } from './helpers/StyleRules';
+import { getHubAssociatedSiteUrls, getHubFamily, IHubFamily } from './helpers/HubApi';
+import { buildNavCss } from './helpers/NavStyles';
+import { getThemeSlots, IThemeSlots } from './helpers/ThemeTokens';
+import { findContrastIssues } from './helpers/Contrast';
+import { findActivePath, IActivePath } from './helpers/ActivePath';
+import { buildBreadcrumb, ICrumb } from './helpers/Breadcrumb';
+import { filterNavNodes, getCurrentUserGroups, isNodeVisible, IUserGroup } from './helpers/Audience';
+import { ConsoleSink, HttpSink, isTelemetryOptedOut, ITelemetrySink, LINK_DEPTH_ATTRIBUTE, ListSink, TelemetryQueue } from './helpers/Telemetry';
+import { AriaCurrentValue, CURRENT_MARKER_ATTRIBUTE, findMenuHeading, linkText, markCurrent, unmarkCurrent } from './helpers/AriaCurrent';
 
 const LOG_SOURCE: string = 'HubNavigationApplicationCustomizer';
 
-/** Throttle delay for DOM observer (ms) */
-const OBSERVER_THROTTLE_MS = 50;
-
-/** CSS selectors for hub navigation links */
-const NAV_SELECTORS = [
-  '[data-automationid="HubNav"] a',
-  '[class*="hubNav"] a',
-  '[class*="HubNav"] a',
-  '[class*="megaMenu"] a',
-  '[class*="MegaMenu"] a',
-  '[class*="topNav"] a',
-  '[class*="TopNav"] a',
-  '[class*="CompositeHeader"] a',
-  'nav a[href*="/sites/"]',
-  '[role="navigation"] a[href*="/sites/"]'
+/** Hub nav labels and mega menu section headings */
+const MENU_HEADING_SELECTORS = [
+  '.ms-HorizontalNavItem-label[data-navigationcomponent="HubNav"]',
+  '.ms-MegaMenu-gridLayout .ms-Menu-section[aria-label]',
+  '.ms-MegaMenu-gridLayout a[class*="itemLinkMenuHeading"]'
 ];
 
+/** Mega menu section and its heading link, which gets aria-current="location" when a link below it is current */
+const MENU_SECTION_SELECTOR = '.ms-MegaMenu-gridLayout .ms-Menu-section';
+const MENU_HEADING_LINK_SELECTOR = 'a[class*="itemLinkMenuHeading"]';
+
+/** Top-level hub nav labels, matched by title to mark active-path ancestors */
+const HUB_NAV_LABEL_SELECTOR = '.ms-HorizontalNavItem-label[data-navigationcomponent="HubNav"]';
+
+/** Active-path classes: the best-matching link and the items above it */
+const ACTIVE_CURRENT_CLASS = 'hub-nav-active-current';
+const ACTIVE_ANCESTOR_CLASS = 'hub-nav-active-ancestor';
+
+/** Classes this customizer adds to SharePoint's DOM, removed again on dispose */
+const MARKER_CLASSES = ['hub-nav-current-site', 'hub-nav-other-site', 'hub-nav-menu-heading', ACTIVE_CURRENT_CLASS, ACTIVE_ANCESTOR_CLASS];
+
+/** Attribute listing the link classes applied by the last pass, so they can be swapped */
+const LINK_CLASSES_ATTRIBUTE = 'data-hub-nav-classes';
+
+/** Parts rendered into the Top placeholder, in display order */
+type TopSlot = 'hubSwitcher' | 'hubNav' | 'breadcrumb';
+const TOP_SLOTS: TopSlot[] = ['hubSwitcher', 'hubNav', 'breadcrumb'];
+
+/** The customizer's own components, by the region click telemetry reports */
+const OWN_REGION_SELECTORS: { [region: string]: string } = {
+  hubNav: '[data-hub-nav-custom]',
+  hubSwitcher: '[data-hub-nav-switcher]',
+  breadcrumb: '[data-hub-nav-breadcrumb]'
+};
+
+/** Hub navigation container watched for changes */
+const HUB_NAV_CONTAINER_SELECTORS = [
+  '[data-automationid="HubNav"]',
+  '.ms-HubNav'
+];
+
+/** Longest wait for the hub nav container after a page load or navigation (ms) */
+const HUB_NAV_CONTAINER_WAIT_MS = 10000;
+
+/** Popup layers SharePoint renders mega menus into */
+const LAYER_SELECTORS = [
+  '.ms-Layer',
+  '.ms-Callout'
+];
+
+/** Out-of-box hub navigation containers, hidden in "replace" render mode */
+const OOB_HUB_NAV_SELECTORS = [
+  '[data-automationid="HubNav"]',
+  '.ms-HubNav'
+];
+
+/** Default config file path, relative to the hub site and the current site */
+const DEFAULT_CONFIG_PATH = 'SiteAssets/hub-nav-config.json';
+
+/** Default tenant storage entity holding tenant-wide config */
+const DEFAULT_TENANT_CONFIG_KEY = 'HubNavConfig';
+
+/** Default time cached config and navigation are used before revalidation (minutes) */
+const DEFAULT_CACHE_TTL_MINUTES = 5;
+
+/** Default timeout for each config and navigation request (ms) */
+const DEFAULT_CONFIG_TIMEOUT_MS = 5000;
+
+/** Default time between checks for changed config files (minutes) */
+const DEFAULT_CONFIG_REFRESH_MINUTES = 5;
+
+/** Time the hub nav must go unchanged after in-page navigation before it is highlighted (ms) */
+const NAVIGATION_QUIET_MS = 100;
+
+/** Longest wait for the hub nav after in-page navigation; later links are left to the observer (ms) */
+const NAVIGATION_WAIT_MS = 3000;
+
+/** Delay after a page load before selector matches are counted (ms) */
+const SELECTOR_CHECK_DELAY_MS = 5000;
+
 export interface IHubNavigationApplicationCustomizerProperties {
   /** Optional: Override config file path (default: SiteAssets/hub-nav-config.json) */
   configPath?: string;
+  /** Optional: Tenant storage entity key with tenant-wide config (default: HubNavConfig, "" to skip) */
+  tenantConfigKey?: string;
+  /** Optional: Config values that override every config file */
+  config?: Partial<INavConfig>;
+  /** Optional: Minutes cached config and navigation are used before revalidation (default: 5) */
+  cacheTtlMinutes?: number;
+  /** Optional: Timeout for each config and navigation request in ms (default: 5000) */
+  configTimeoutMs?: number;
+  /** Optional: Cache config and navigation in "session" or "local" storage (default: session) */
+  cacheStorage?: CacheStorageType;
+  /** Optional: Minutes between checks for changed config files while the page is visible (default: 5, 0 to turn off) */
+  configRefreshMinutes?: number;
 }
 
 /** Application Customizer to highlight current site in hub navigation */
@@ -33,33 +139,88 @@ export default class HubNavigationApplicationCustomizer
 
   private _styleElement: HTMLStyleElement | null = null;
   private _config: INavConfig = DEFAULT_NAV_CONFIG;
-  private _observer: MutationObserver | null = null;
-  private _throttleTimer: number | null = null;
+  private _navObserver: NavObserver | null = null;
+  private _siteMatcher: SiteMatcher | null = null;
+  private _highlightPassCount: number = 0;
+  private _abortController: AbortController = new AbortController();
+  private _cache: StorageCache | null = null;
+  private _hubSiteUrl: string = '';
+  private _topPlaceholder: PlaceholderContent | undefined;
+  private _topSlots: { [slot: string]: HTMLDivElement } = {};
+  private _navNodes: INavNode[] = [];
+  private _selectors: SelectorSet | null = null;
+  private _selectorMatches: ISelectorMatchCount[] = [];
+  private _selectorCheckTimer: number | undefined;
+  private _resolvedConfig: IResolvedConfig | null = null;
+  /** Site config file URL the current config was resolved for; changes when navigating to another site */
+  private _configUrl: string = '';
+  /** Incremented per config load so a slower, older load cannot overwrite a newer one */
+  private _configRequest: number = 0;
+  private _configRefreshTimer: number | undefined;
+  private _configChannel: ConfigChannel | null = null;
+  /** Cancels the pass of the previous navigation when another one starts */
+  private _navigationController: AbortController | null = null;
+  private _configSource: string = 'defaults';
+  private _configLoadMs: number | null = null;
+  private _activationReason: string = '';
+  /** Activation rules include the current site with the current config; styles and components are on the page */
+  private _active: boolean = false;
+  private _debugTrace: DebugTrace | null = null;
+  private _debugElement: HTMLDivElement | null = null;
+  /** Site URLs of the current hub, null until loaded (only needed by "hub" style rules) */
+  private _sameHubSiteUrls: string[] | null = null;
+  private _themeProvider: ThemeProvider | null = null;
+  private _themeSlots: IThemeSlots = getThemeSlots(undefined);
+  private _contrastWarnings: IConfigWarning[] = [];
+  private _liveRegion: HTMLDivElement | null = null;
+  private _announcedSiteKey: string = '';
+  /** Current hub with its parent and siblings, null until loaded (hub switcher) */
+  private _hubFamily: IHubFamily | null = null;
+  /** The user's groups for audience targeting, null until loaded */
+  private _userGroups: IUserGroup[] | null = null;
+  private _userGroupsRequested: boolean = false;
+  private _telemetry: TelemetryQueue | null = null;
+  private _navClickListener: ((event: MouseEvent) => void) | null = null;
+  private _editorElement: HTMLDivElement | null = null;
+  /** Site config file as last read or saved by the editor */
+  private _editorFile: IConfigFile | null = null;
+  /** Config to go back to when the editor closes without saving */
+  private _editorBaseConfig: INavConfig | null = null;
 
   public async onInit(): Promise<void> {
     try {
       Log.info(LOG_SOURCE, 'Initialized');
 
-      // Load configuration from Site Assets
-      await this._loadConfig();
+      if (isDebugRequested(window.location.search)) {
+        this._debugTrace = new DebugTrace();
+      }
 
-      // Inject CSS styles based on config
-      this._injectStyles();
+      this._cache = new StorageCache(this.properties.cacheStorage || 'session');
 
-      // Apply highlighting
-      this._applyHighlighting();
+      // Resolve theme slot colours from the site theme and follow theme changes
+      this._themeProvider = this.context.serviceScope.consume(ThemeProvider.serviceKey);
+      this._themeSlots = getThemeSlots(this._themeProvider.tryGetTheme());
+      this._themeProvider.themeChangedEvent.add(this, this._onThemeChanged);
 
-      // Re-apply on navigation events
-      this.context.application.navigatedEvent.add(this, () => {
-        try {
-          setTimeout(() => this._applyHighlighting(), 50);
-        } catch (error) {
-          Log.error(LOG_SOURCE, new Error(`Navigation event handler failed: ${error}`));
-        }
-      });
+      // Applying a config activates the customizer when its activation rules include this site
+      const resolver = this._createConfigResolver();
+      if (this._applyCachedConfig(resolver)) {
+        // Style straight from the cache; a newer config is applied in place when it arrives
+        this._loadConfig(resolver).catch(() => undefined);
+      } else {
+        await this._loadConfig(resolver);
+      }
+      this._updateActivation();
+
+      // Re-check activation and re-apply on navigation events, also when this site is excluded
+      this.context.application.navigatedEvent.add(this, this._onNavigated);
 
-      // Watch for DOM changes (mega menu opens) with throttling
-      this._observeDOM();
+      // Pick up config file changes made in the editor or elsewhere
+      this._startConfigRefresh();
+
+      if (this._active && isEditRequested(window.location.search)) {
+        this._openConfigEditor().catch(() => undefined);
+      }
 
     } catch (error) {
       Log.error(LOG_SOURCE, new Error(`Initialization failed: ${error}`));
@@ -69,152 +230,1266 @@ export default class HubNavigationApplicationCustomizer
   }
 
   /**
-   * Load navigation config from Site Assets JSON file
+   * Re-highlight after in-page navigation once the new page's hub nav has rendered
+   */
+  private _onNavigated(): void {
+    this._runNavigationPass().catch((error: unknown) => {
+      Log.error(LOG_SOURCE, new Error(`Navigation event handler failed: ${error}`));
+    });
+  }
+
+  /**
+   * One navigation pass: state derived from the old page is dropped at once (the
+   * current site comes from the new pageContext), then the pass waits, bounded, for
+   * the hub nav to be present and stable. A newer navigation cancels the pass.
    */
-  private async _loadConfig(): Promise<void> {
+  private async _runNavigationPass(): Promise<void> {
+    if (this._navigationController) this._navigationController.abort();
+    const controller = new AbortController();
+    this._navigationController = controller;
+
     try {
-      const siteUrl = this.context.pageContext.web.absoluteUrl;
-      const configPath = this.properties.configPath || 'SiteAssets/hub-nav-config.json';
-      const configUrl = `${siteUrl}/${configPath}`;
+      this._siteMatcher = null;
+      this._sameHubSiteUrls = null;
+      if (this._debugTrace) this._debugTrace.reset();
+      this._reloadConfigForSite();
+      this._updateActivation();
+      if (!this._active) return;
 
-      const response = await this.context.spHttpClient.get(
-        configUrl,
-        SPHttpClient.configurations.v1
-      );
+      // Sites outside a hub have no hub nav to wait for
+      if (this.context.pageContext.legacyPageContext.hubSiteId) {
+        const started = performance.now();
+        const container = await waitForStableElement(HUB_NAV_CONTAINER_SELECTORS, {
+          quietMs: NAVIGATION_QUIET_MS,
+          timeoutMs: NAVIGATION_WAIT_MS,
+          signal: controller.signal
+        });
+        if (controller.signal.aborted || this._abortController.signal.aborted) return;
+        Log.verbose(LOG_SOURCE, container
+          ? `Hub nav stable ${elapsedMs(started)} ms after navigation`
+          : `Hub nav not found within ${NAVIGATION_WAIT_MS} ms after navigation`);
+      }
 
-      if (response.ok) {
-        try {
-          const json = await response.json();
-          this._config = {
-            currentSiteColor: json.currentSiteColor || DEFAULT_NAV_CONFIG.currentSiteColor,
-            currentSiteFontWeight: json.currentSiteFontWeight || DEFAULT_NAV_CONFIG.currentSiteFontWeight,
-            otherSiteColor: json.otherSiteColor || DEFAULT_NAV_CONFIG.otherSiteColor,
-            otherSiteFontWeight: json.otherSiteFontWeight || DEFAULT_NAV_CONFIG.otherSiteFontWeight
-          };
-          Log.info(LOG_SOURCE, 'Config loaded from Site Assets');
-        } catch (parseError) {
-          Log.error(LOG_SOURCE, new Error(`Failed to parse config JSON: ${parseError}`));
-        }
+      this._applyHighlighting();
+      this._renderTopPlaceholder();
+      if (this._navObserver) this._navObserver.refresh();
+      this._scheduleSelectorCheck();
+      this._loadHubSites().catch(() => undefined);
+      this._loadHubFamily().catch(() => undefined);
+      this._announceCurrentSite();
+    } finally {
+      if (this._navigationController === controller) this._navigationController = null;
+    }
+  }
+
+  /**
+   * Evaluate activation for the current site and config, and start or stop the
+   * customizer when the result changed (a fresh config or navigation can do that)
+   */
+  private _updateActivation(): void {
+    try {
+      const activation = this._evaluateActivation();
+      const reason = `${activation.active ? 'active' : 'skipped'} – ${activation.reason}`;
+      if (reason !== this._activationReason) Log.info(LOG_SOURCE, `Hub Navigation Customizer ${reason}`);
+      this._activationReason = reason;
+
+      if (activation.active && !this._active) {
+        this._activate();
+      } else if (!activation.active && this._active) {
+        this._deactivate();
+      }
+      this._renderDebugPanel();
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to update activation: ${error}`));
+    }
+  }
+
+  /**
+   * Style, highlight and render the navigation on a site the customizer is active on
+   */
+  private _activate(): void {
+    this._active = true;
+
+    // Inject CSS styles based on config
+    this._injectStyles();
+
+    // Apply highlighting
+    this._applyHighlighting();
+    this._announcedSiteKey = this._getSiteMatcher().currentSiteKey;
+    this._scheduleSelectorCheck();
+    this._loadHubSites().catch(() => undefined);
+
+    // Render the hub switcher, our own hub navigation in "replace" mode and the breadcrumb
+    this.context.placeholderProvider.changedEvent.add(this, this._renderTopPlaceholder);
+    this._loadHubFamily().catch(() => undefined);
+    if (this._needsNavTree()) {
+      this._loadNavNodes().catch(() => undefined);
+    }
+
+    // Record nav link clicks
+    this._startTelemetry();
+
+    // Watch the hub nav and mega menu layers for new links
+    this._observeDOM();
+  }
+
+  /**
+   * Undo _activate when a newer config or navigation excludes the site: remove the
+   * styles, markers and rendered components and stop observing and recording clicks
+   */
+  private _deactivate(): void {
+    this._active = false;
+    try {
+      this._stopTelemetry();
+      window.clearTimeout(this._selectorCheckTimer);
+      this.context.placeholderProvider.changedEvent.remove(this, this._renderTopPlaceholder);
+      this._disposeTopPlaceholder();
+      if (this._navObserver) {
+        this._navObserver.stop();
+        this._navObserver = null;
+      }
+      if (this._styleElement) {
+        this._styleElement.remove();
+        this._styleElement = null;
+      }
+      this._removeMarkers();
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to deactivate: ${error}`);
+    }
+  }
+
+  /**
+   * Check the config's activation rules against the current site
+   */
+  private _evaluateActivation(): IActivationResult {
+    const pageContext = this.context.pageContext;
+    const legacy = pageContext.legacyPageContext;
+    return evaluateActivation(this._config.activation, {
+      serverRelativeUrl: pageContext.web.serverRelativeUrl,
+      hubSiteId: legacy.hubSiteId || '',
+      siteTemplate: legacy.webTemplateConfiguration || `${legacy.webTemplate || ''}`,
+      host: window.location.host
+    });
+  }
+
+  /**
+   * Build a config resolver for the current page context and properties
+   */
+  private _createConfigResolver(): ConfigResolver {
+    const pageContext = this.context.pageContext;
+    const tenantConfigKey = this.properties.tenantConfigKey;
+
+    return new ConfigResolver(this.context.spHttpClient, {
+      webAbsoluteUrl: pageContext.web.absoluteUrl,
+      hubSiteId: pageContext.legacyPageContext.hubSiteId || '',
+      configPath: this.properties.configPath || DEFAULT_CONFIG_PATH,
+      tenantConfigKey: tenantConfigKey !== undefined ? tenantConfigKey : DEFAULT_TENANT_CONFIG_KEY,
+      properties: this.properties.config as IJsonObject,
+      cache: this._cache || undefined,
+      ttlMs: this._cacheTtlMs(),
+      timeoutMs: this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS,
+      signal: this._abortController.signal
+    });
+  }
+
+  private _cacheTtlMs(): number {
+    const ttlMinutes = this.properties.cacheTtlMinutes !== undefined ? this.properties.cacheTtlMinutes : DEFAULT_CACHE_TTL_MINUTES;
+    return ttlMinutes * 60 * 1000;
+  }
+
+  private _configCacheKey(resolver: ConfigResolver): string {
+    return `config:${resolver.siteConfigUrl}`;
+  }
+
+  /**
+   * Use the cached resolved config of the resolver's site, if any. Returns whether one was found.
+   */
+  private _applyCachedConfig(resolver: ConfigResolver): boolean {
+    const cached = this._cache ? this._cache.get<IResolvedConfig>(this._configCacheKey(resolver)) : undefined;
+    if (!cached) return false;
+
+    this._configUrl = resolver.siteConfigUrl;
+    this._resolvedConfig = cached.value;
+    this._configSource = 'cache (revalidating)';
+    this._setHubSiteUrl(cached.value.hubSiteUrl || '');
+    this._setConfig(validateNavConfig(cached.value.config).config);
+    return true;
+  }
+
+  /**
+   * After in-page navigation, switch to the config of the new site when it reads
+   * a different config file (another web, and usually another hub)
+   */
+  private _reloadConfigForSite(): void {
+    try {
+      const resolver = this._createConfigResolver();
+      if (resolver.siteConfigUrl === this._configUrl) return;
+
+      Log.info(LOG_SOURCE, `Navigated to a site with config ${resolver.siteConfigUrl}, reloading config`);
+      if (this._editorElement) this._closeConfigEditor();
+      this._applyCachedConfig(resolver);
+      this._loadConfig(resolver).catch(() => undefined);
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to reload config after navigation: ${error}`));
+    }
+  }
+
+  /**
+   * Re-resolve the config periodically while the page is visible (stale documents
+   * are revalidated with If-None-Match) and right away when another tab saves one
+   * of its files
+   */
+  private _startConfigRefresh(): void {
+    try {
+      const minutes = this.properties.configRefreshMinutes !== undefined ? this.properties.configRefreshMinutes : DEFAULT_CONFIG_REFRESH_MINUTES;
+      if (minutes > 0) {
+        this._configRefreshTimer = window.setInterval(() => {
+          if (document.visibilityState === 'visible' && !this._editorElement) {
+            this._loadConfig(this._createConfigResolver()).catch(() => undefined);
+          }
+        }, minutes * 60 * 1000);
+      }
+
+      this._configChannel = new ConfigChannel((url: string) => this._onConfigSaved(url));
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to start config refresh: ${error}`);
+    }
+  }
+
+  /**
+   * Reload the config when a file it was merged from was saved in another tab
+   */
+  private _onConfigSaved(url: string): void {
+    if (this._editorElement) return;
+
+    // The site's own file counts even when it did not exist before
+    const key = url.toLowerCase();
+    const layers = this._resolvedConfig ? this._resolvedConfig.layers : [];
+    if (key !== this._configUrl.toLowerCase() && !layers.some((l: IConfigLayerInfo) => l.location.toLowerCase() === key)) return;
+
+    Log.info(LOG_SOURCE, `Config file ${url} was saved, reloading config`);
+    const resolver = this._createConfigResolver();
+    resolver.forgetDocument(url);
+    if (this._cache) this._cache.remove(this._configCacheKey(resolver));
+    this._loadConfig(resolver).catch(() => undefined);
+  }
+
+  /**
+   * Switch to another hub's navigation when navigation or a config load moved the site
+   */
+  private _setHubSiteUrl(url: string): void {
+    if (url === this._hubSiteUrl) return;
+
+    this._hubSiteUrl = url;
+    this._sameHubSiteUrls = null;
+    if (this._styleElement) {
+      this._navNodes = [];
+      this._renderTopPlaceholder();
+      if (this._needsNavTree()) this._loadNavNodes().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Load navigation config, merging tenant, hub site, current site and component properties
+   */
+  private async _loadConfig(resolver: ConfigResolver): Promise<void> {
+    try {
+      const request = ++this._configRequest;
+      const started = performance.now();
+      const resolved = await resolver.resolve();
+      if (this._abortController.signal.aborted || request !== this._configRequest) return;
+      this._configLoadMs = elapsedMs(started);
+
+      resolved.warnings.forEach((warning: IConfigWarning) => {
+        Log.warn(LOG_SOURCE, `Config key "${warning.key}" ignored: ${warning.reason}`);
+      });
+
+      if (resolved.layers.length > 0) {
+        Log.info(LOG_SOURCE, `Config loaded from ${resolved.layers.map((l: IConfigLayerInfo) => `${l.layer} (${l.location})`).join(', ')}`);
+        Log.verbose(LOG_SOURCE, `Config value sources: ${JSON.stringify(resolved.sources)}`);
       } else {
-        Log.warn(LOG_SOURCE, `Config file not found at ${configUrl}, using defaults`);
+        Log.warn(LOG_SOURCE, 'No config found, using defaults');
+      }
+      Log.info(LOG_SOURCE, resolved.profile ? `Environment profile "${resolved.profile}" applied` : 'No environment profile matches this site');
+
+      if (this._cache) {
+        this._cache.set(this._configCacheKey(resolver), resolved);
       }
+      this._configUrl = resolver.siteConfigUrl;
+      this._resolvedConfig = resolved;
+      this._configSource = 'resolved';
+      this._setHubSiteUrl(resolved.hubSiteUrl);
+      this._setConfig(resolved.config);
+      this._renderDebugPanel();
     } catch (error) {
       Log.error(LOG_SOURCE, new Error(`Failed to load config: ${error}`));
     }
   }
 
+  /**
+   * Swap in a config, restyling in place when styles are already on the page
+   */
+  private _setConfig(config: INavConfig): void {
+    const changed = JSON.stringify(config) !== JSON.stringify(this._config);
+    this._config = config;
+
+    if (changed) {
+      this._siteMatcher = null;
+      this._selectors = null;
+    }
+
+    // Starting or stopping applies the whole config, so only restyle when staying active
+    const wasActive = this._active;
+    this._updateActivation();
+
+    if (changed && wasActive && this._active) {
+      Log.info(LOG_SOURCE, 'Config changed, updating styles');
+      if (this._needsNavTree() && this._navNodes.length === 0) {
+        this._loadNavNodes().catch(() => undefined);
+      }
+      this._injectStyles();
+      this._applyHighlighting();
+      this._renderTopPlaceholder();
+      this._loadHubSites().catch(() => undefined);
+      this._loadHubFamily().catch(() => undefined);
+      this._loadUserGroups().catch(() => undefined);
+      this._stopTelemetry();
+      this._startTelemetry();
+    }
+  }
+
   /**
    * Inject CSS styles for navigation highlighting
    */
   private _injectStyles(): void {
     try {
-      if (this._styleElement) {
-        this._styleElement.remove();
+      if (!this._styleElement) {
+        this._styleElement = document.createElement('style');
+        this._styleElement.setAttribute('data-hub-nav-customizer', 'true');
+        document.head.appendChild(this._styleElement);
       }
 
-      this._styleElement = document.createElement('style');
-      this._styleElement.setAttribute('data-hub-nav-customizer', 'true');
-      this._styleElement.innerHTML = `
-        .hub-nav-current-site,
-        .hub-nav-current-site span,
-        .hub-nav-current-site button,
-        a.hub-nav-current-site {
-          color: ${this._config.currentSiteColor} !important;
-          font-weight: ${this._config.currentSiteFontWeight} !important;
-        }
-        
-        .hub-nav-other-site,
-        .hub-nav-other-site span,
-        .hub-nav-other-site button,
-        a.hub-nav-other-site {
-          color: ${this._config.otherSiteColor} !important;
-          font-weight: ${this._config.otherSiteFontWeight} !important;
-        }
-      `;
-      document.head.appendChild(this._styleElement);
+      const hideSelectors = this._config.renderMode === 'replace' ? OOB_HUB_NAV_SELECTORS : [];
+      this._styleElement.innerHTML = buildNavCss(this._config, this._themeSlots, hideSelectors);
+      this._checkContrast();
     } catch (error) {
       Log.error(LOG_SOURCE, new Error(`Failed to inject styles: ${error}`));
     }
   }
 
   /**
-   * Apply CSS classes to navigation links based on current site
+   * Warn about configured colour pairs below WCAG AA for the current theme
    */
-  private _applyHighlighting(): void {
+  private _checkContrast(): void {
     try {
-      const currentSiteUrl = this.context.pageContext.web.absoluteUrl.replace(/\/$/, '').toLowerCase();
-      const currentSiteName = this._extractSiteName(currentSiteUrl);
+      this._contrastWarnings = findContrastIssues(this._config, this._themeSlots);
+      this._contrastWarnings.forEach((warning: IConfigWarning) => {
+        Log.warn(LOG_SOURCE, `Config key "${warning.key}" has low contrast: ${warning.reason}`);
+      });
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to check colour contrast: ${error}`);
+    }
+  }
 
-      if (!currentSiteName) return;
+  /**
+   * Follow the site theme so theme slot colours stay current
+   */
+  private _onThemeChanged(args: ThemeChangedEventArgs): void {
+    this._themeSlots = getThemeSlots(args.theme);
+    if (this._styleElement) {
+      this._injectStyles();
+    }
+  }
 
-      const allLinks = document.querySelectorAll(NAV_SELECTORS.join(', '));
+  /**
+   * Apply CSS classes to navigation links based on current site.
+   * Only links inside `roots` are processed; the whole page when omitted.
+   */
+  private _applyHighlighting(roots?: Element[]): void {
+    if (!this._active) return;
+    try {
+      const started = performance.now();
+      this._highlightPassCount++;
+      if (this._styleElement) {
+        this._styleElement.setAttribute('data-highlight-passes', `${this._highlightPassCount}`);
+      }
+
+      const matcher = this._getSiteMatcher();
+      const allLinks = queryAll(roots, allSelectors(this._getSelectors()).join(', '));
+
+      matcher.registerWebs(allLinks.map((link: Element) => link.getAttribute('href') || ''));
+      const sameHubSiteKeys = this._sameHubSiteKeys(matcher);
+      const currentLinks: Element[] = [];
 
       allLinks.forEach((link: Element) => {
         try {
           const href = link.getAttribute('href') || '';
-          const linkSiteName = this._extractSiteName(href.toLowerCase());
+          const result = matcher.match(href);
+          const classification = this._classifyLink(href, linkText(link), result, sameHubSiteKeys);
+          if (result.isCurrent) currentLinks.push(link);
 
-          // Remove existing classes
-          link.classList.remove('hub-nav-current-site', 'hub-nav-other-site');
+          // Swap the classes of the previous pass for the new ones
+          removeLinkClasses(link);
+          if (classification.classes.length > 0) {
+            link.classList.add(...classification.classes);
+            link.setAttribute(LINK_CLASSES_ATTRIBUTE, classification.classes.join(' '));
+          }
 
-          // Apply appropriate class
-          if (linkSiteName && linkSiteName === currentSiteName) {
-            link.classList.add('hub-nav-current-site');
-          } else if (href.indexOf('/sites/') > -1) {
-            link.classList.add('hub-nav-other-site');
+          if (this._debugTrace) {
+            const found = findMatchingSelector(link, this._getSelectors());
+            this._debugTrace.recordLink(link, {
+              href,
+              text: linkText(link).trim(),
+              region: found ? found.region : '',
+              selector: found ? found.selector : '',
+              className: classification.classes.join(' '),
+              reason: classification.reason
+            });
           }
         } catch (linkError) {
           Log.warn(LOG_SOURCE, `Failed to process link: ${linkError}`);
         }
       });
+
+      queryAll(roots, MENU_HEADING_SELECTORS.join(', ')).forEach((heading: Element) => {
+        heading.classList.add('hub-nav-menu-heading');
+      });
+
+      if (this._config.activePath.enabled) {
+        const active = this._applyActivePath(matcher);
+        this._markCurrentLinks(undefined, active.current, active.ancestors, matcher);
+      } else {
+        setClassOn(ACTIVE_CURRENT_CLASS, []);
+        setClassOn(ACTIVE_ANCESTOR_CLASS, []);
+        this._markCurrentLinks(roots, currentLinks, this._menuHeadingsOf(currentLinks), matcher);
+      }
+
+      if (this._debugTrace) {
+        this._debugTrace.recordPass({
+          pass: this._highlightPassCount,
+          scope: roots ? `${roots.length} roots` : 'page',
+          links: allLinks.length,
+          ms: elapsedMs(started)
+        });
+        this._renderDebugPanel();
+      }
     } catch (error) {
       Log.error(LOG_SOURCE, new Error(`Failed to apply highlighting: ${error}`));
     }
   }
 
   /**
-   * Extract site name from URL (e.g., "mysite" from "/sites/mysite/pages")
+   * Link selectors per region: built-in defaults with the config's additions and removals
    */
-  private _extractSiteName(url: string): string {
+  private _getSelectors(): SelectorSet {
+    if (!this._selectors) {
+      this._selectors = resolveSelectors(this._config.selectors);
+    }
+    return this._selectors;
+  }
+
+  /**
+   * Count selector matches once the page has settled, restarting the wait on every page load
+   */
+  private _scheduleSelectorCheck(): void {
+    window.clearTimeout(this._selectorCheckTimer);
+    this._selectorCheckTimer = window.setTimeout(() => this._checkSelectors(), SELECTOR_CHECK_DELAY_MS);
+  }
+
+  /**
+   * Record how many elements each selector matches and warn when none of the hub nav
+   * selectors match, which usually means SharePoint changed its markup
+   */
+  private _checkSelectors(): void {
     try {
-      const match = url.split('/sites/')[1];
-      return match ? match.split('/')[0] : '';
+      this._selectorMatches = countSelectorMatches(this._getSelectors());
+      Log.verbose(LOG_SOURCE, `Selector matches: ${this._selectorMatches.map((m: ISelectorMatchCount) => `${m.region} ${m.selector} = ${m.count}`).join('; ')}`);
+
+      const hubNavFound = this._selectorMatches.some((m: ISelectorMatchCount) => m.region === 'hubNav' && m.count > 0);
+      if (!hubNavFound && this._config.renderMode === 'highlight') {
+        Log.warn(LOG_SOURCE, `No hub navigation found on ${window.location.pathname}: none of the hubNav selectors matched, check config "selectors"`);
+      }
+      this._renderDebugPanel();
     } catch (error) {
-      Log.warn(LOG_SOURCE, `Failed to extract site name from URL: ${error}`);
-      return '';
+      Log.error(LOG_SOURCE, new Error(`Failed to check selectors: ${error}`));
     }
   }
 
   /**
-   * Observe DOM changes with throttling to handle mega menu
+   * Mark the single link that best matches the current page as current and its
+   * heading and top-level item as ancestors. Uses the hub's navigation tree when it
+   * is loaded, otherwise the links on the page and their mega menu headings.
    */
-  private _observeDOM(): void {
+  private _applyActivePath(matcher: SiteMatcher): { current: Element[]; ancestors: Element[] } {
+    const links = queryAll(undefined, allSelectors(this._getSelectors()).join(', '));
+    const hrefKey = (element: Element): string => matcher.urlKey(element.getAttribute('href') || '');
+    const path = findActivePath(this._navNodes, (url: string) => matcher.activePathScore(url));
+
+    let currentKey = '';
+    const ancestorKeys: string[] = [];
+    const ancestorTitles: string[] = [];
+    if (path) {
+      currentKey = matcher.urlKey(path.node.Url);
+      path.ancestors.forEach((node: INavNode) => {
+        if (node.Url) ancestorKeys.push(matcher.urlKey(node.Url));
+        ancestorTitles.push(node.Title.trim().toLowerCase());
+      });
+    } else {
+      let bestScore = -1;
+      links.forEach((link: Element) => {
+        const score = matcher.activePathScore(link.getAttribute('href') || '');
+        if (score > bestScore) {
+          bestScore = score;
+          currentKey = hrefKey(link);
+        }
+      });
+    }
+
+    const current = currentKey ? links.filter((link: Element) => hrefKey(link) === currentKey) : [];
+    const ancestors: Element[] = [];
+    const addAncestor = (element: Element): void => {
+      if (current.indexOf(element) === -1 && ancestors.indexOf(element) === -1) ancestors.push(element);
+    };
+
+    links.forEach((link: Element) => {
+      if (ancestorKeys.indexOf(hrefKey(link)) > -1) addAncestor(link);
+    });
+    if (ancestorTitles.length > 0) {
+      queryAll(undefined, `${HUB_NAV_LABEL_SELECTOR}, ${MENU_HEADING_LINK_SELECTOR}`).forEach((label: Element) => {
+        if (ancestorTitles.indexOf(linkText(label).trim().toLowerCase()) > -1) addAncestor(label);
+      });
+    }
+    this._menuHeadingsOf(current).forEach(addAncestor);
+
+    setClassOn(ACTIVE_CURRENT_CLASS, current);
+    setClassOn(ACTIVE_ANCESTOR_CLASS, ancestors);
+    return { current, ancestors };
+  }
+
+  /** Mega menu heading links above the given links */
+  private _menuHeadingsOf(links: Element[]): Element[] {
+    const headings: Element[] = [];
+    links.forEach((link: Element) => {
+      const heading = findMenuHeading(link, MENU_SECTION_SELECTOR, MENU_HEADING_LINK_SELECTOR);
+      if (heading && headings.indexOf(heading) === -1) headings.push(heading);
+    });
+    return headings;
+  }
+
+  /**
+   * Give current links aria-current ("page" for the exact page, else "location") and
+   * the headings or items above them "location"; clear it from elements no longer current
+   */
+  private _markCurrentLinks(roots: Element[] | undefined, currentLinks: Element[], ancestors: Element[], matcher: SiteMatcher): void {
+    const a11y = this._config.accessibility;
+    const desired = new Map<Element, AriaCurrentValue | null>();
+
+    currentLinks.forEach((link: Element) => {
+      desired.set(link, a11y.ariaCurrent ? (matcher.isCurrentPage(link.getAttribute('href') || '') ? 'page' : 'location') : null);
+    });
+    if (a11y.ariaCurrent) {
+      ancestors.forEach((element: Element) => {
+        if (!desired.has(element)) desired.set(element, 'location');
+      });
+    }
+    if (!a11y.ariaCurrent && !a11y.currentSuffix) desired.clear();
+
+    queryAll(roots, `[${CURRENT_MARKER_ATTRIBUTE}]`).forEach((element: Element) => {
+      if (!desired.has(element)) unmarkCurrent(element);
+    });
+
+    const suffix = a11y.currentSuffix ? strings.CurrentSiteSuffix : '';
+    desired.forEach((value: AriaCurrentValue | null, element: Element) => {
+      markCurrent(element, value, currentLinks.indexOf(element) > -1 ? suffix : '');
+    });
+  }
+
+  /**
+   * Announce the current site in a polite live region when in-page navigation changed site
+   */
+  private _announceCurrentSite(): void {
     try {
-      if (this._observer) return;
+      const siteKey = this._getSiteMatcher().currentSiteKey;
+      if (!this._config.accessibility.announceNavigation || siteKey === this._announcedSiteKey) return;
+      this._announcedSiteKey = siteKey;
 
-      this._observer = new MutationObserver(() => {
-        try {
-          // Throttle to prevent excessive calls
-          if (this._throttleTimer) return;
-
-          this._throttleTimer = window.setTimeout(() => {
-            try {
-              this._applyHighlighting();
-            } catch (error) {
-              Log.error(LOG_SOURCE, new Error(`Observer callback failed: ${error}`));
-            } finally {
-              this._throttleTimer = null;
-            }
-          }, OBSERVER_THROTTLE_MS);
-        } catch (error) {
-          Log.error(LOG_SOURCE, new Error(`Observer throttle failed: ${error}`));
+      if (!this._liveRegion) {
+        this._liveRegion = document.createElement('div');
+        this._liveRegion.className = 'hub-nav-sr-only';
+        this._liveRegion.setAttribute('role', 'status');
+        this._liveRegion.setAttribute('aria-live', 'polite');
+        document.body.appendChild(this._liveRegion);
+      }
+
+      // Clear first so the same text is announced again
+      const region = this._liveRegion;
+      region.textContent = '';
+      window.setTimeout(() => {
+        region.textContent = Text.format(strings.CurrentSiteAnnouncement, this.context.pageContext.web.title);
+      }, 100);
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to announce navigation: ${error}`);
+    }
+  }
+
+  /**
+   * Remove every class this customizer added to the page
+   */
+  private _removeMarkers(): void {
+    document.querySelectorAll(`[${CURRENT_MARKER_ATTRIBUTE}]`).forEach(unmarkCurrent);
+
+    document.querySelectorAll(`[${LINK_CLASSES_ATTRIBUTE}]`).forEach(removeLinkClasses);
+
+    const selector = MARKER_CLASSES.map((c: string) => `.${c}`).join(', ');
+    document.querySelectorAll(selector).forEach((element: Element) => {
+      element.classList.remove(...MARKER_CLASSES);
+    });
+  }
+
+  /**
+   * Classes for a link: those of the first matching style rule, otherwise the
+   * built-in current/other site class (none for links outside the tenant)
+   */
+  private _classifyLink(href: string, title: string, result: ISiteMatchResult, sameHubSiteKeys: string[] | null): { classes: string[]; reason: string } {
+    const rules = this._config.styleRules;
+    if (rules.length > 0) {
+      const facts = getLinkFacts(href, title, result, this.context.pageContext.web.absoluteUrl, sameHubSiteKeys);
+      const index = findStyleRule(rules, facts);
+      if (index > -1) {
+        return { classes: styleRuleClasses(rules, index), reason: `${result.reason}; style rule #${index}` };
+      }
+    }
+
+    // In active-path mode only the best-matching link is current (see _applyActivePath)
+    if (result.isCurrent && !this._config.activePath.enabled) return { classes: ['hub-nav-current-site'], reason: result.reason };
+    if (result.isSharePointSite) return { classes: ['hub-nav-other-site'], reason: result.reason };
+    return { classes: [], reason: result.reason };
+  }
+
+  /**
+   * Site keys of the current hub's sites, null while unknown
+   */
+  private _sameHubSiteKeys(matcher: SiteMatcher): string[] | null {
+    if (!this._sameHubSiteUrls) return null;
+    return this._sameHubSiteUrls.map((url: string) => matcher.match(url).siteKey);
+  }
+
+  /**
+   * Load the current hub's sites when a style rule has a "hub" condition, then reclassify
+   */
+  private async _loadHubSites(): Promise<void> {
+    try {
+      const hubSiteId = this.context.pageContext.legacyPageContext.hubSiteId || '';
+      if (this._sameHubSiteUrls || !hubSiteId || !usesHubRelation(this._config.styleRules)) return;
+
+      const urls = await getHubAssociatedSiteUrls(this.context.pageContext.web.absoluteUrl, hubSiteId, this.context.spHttpClient, {
+        cache: this._cache || undefined,
+        ttlMs: this._cacheTtlMs(),
+        timeoutMs: this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS,
+        signal: this._abortController.signal
+      });
+      if (this._abortController.signal.aborted) return;
+
+      this._sameHubSiteUrls = this._hubSiteUrl ? urls.concat(this._hubSiteUrl) : urls;
+      this._applyHighlighting();
+      this._renderTopNav();
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to load hub sites, "hub" style rules will not match: ${error}`);
+    }
+  }
+
+  /** The hub's navigation tree is used by "replace" render mode, active-path highlighting and the breadcrumb */
+  private _needsNavTree(): boolean {
+    return this._config.renderMode === 'replace' || this._config.activePath.enabled || this._config.breadcrumb.enabled;
+  }
+
+  /**
+   * Fetch the hub's navigation tree (see _needsNavTree)
+   */
+  private async _loadNavNodes(): Promise<void> {
+    try {
+      const hubUrl = this._hubSiteUrl;
+      if (!hubUrl) {
+        Log.warn(LOG_SOURCE, 'Site is not associated with a hub, nothing to render in replace mode');
+        return;
+      }
+
+      const tree = await getNavTree(hubUrl, this.context.spHttpClient, {
+        cache: this._cache || undefined,
+        ttlMs: this._cacheTtlMs(),
+        timeoutMs: this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS,
+        signal: this._abortController.signal,
+        language: this.context.pageContext.cultureInfo.currentUICultureName,
+        onUpdate: (updated: INavTree) => {
+          Log.info(LOG_SOURCE, `Hub navigation changed (version ${updated.version}), re-rendering`);
+          this._navNodes = updated.nodes;
+          this._renderTopPlaceholder();
+          this._loadUserGroups().catch(() => undefined);
+          if (this._config.activePath.enabled) this._applyHighlighting();
         }
       });
+      this._navNodes = tree.nodes;
+      this._renderTopPlaceholder();
+      this._loadUserGroups().catch(() => undefined);
+      if (this._config.activePath.enabled) this._applyHighlighting();
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to load hub navigation: ${error}`));
+    }
+  }
+
+  /**
+   * Resolve the user's groups once when audience targeting has something to decide,
+   * then re-render with the nodes they may see. A failed request is retried on the next call.
+   */
+  private async _loadUserGroups(): Promise<void> {
+    try {
+      const audiences = this._config.audiences;
+      if (this._userGroups || this._userGroupsRequested || !audiences.enabled) return;
+      if (audiences.hide.length === 0 && !someNode(this._navNodes, (node: INavNode) => node.AudienceIds.length > 0)) return;
+
+      this._userGroupsRequested = true;
+      const graphClient = await this.context.msGraphClientFactory.getClient('3');
+      const groups = await getCurrentUserGroups(graphClient, this.context.pageContext.user.loginName, new StorageCache('session'));
+      if (this._abortController.signal.aborted) return;
+
+      this._userGroups = groups;
+      this._renderTopPlaceholder();
+    } catch (error) {
+      this._userGroupsRequested = false;
+      Log.warn(LOG_SOURCE, `Failed to read group membership, audience-targeted and hide-rule links stay hidden: ${error}`);
+    }
+  }
+
+  /**
+   * The hub's navigation tree without nodes hidden from the user by audience targeting or hide rules
+   */
+  private _visibleNavNodes(): INavNode[] {
+    const audiences = this._config.audiences;
+    if (!audiences.enabled) return this._navNodes;
+    return filterNavNodes(this._navNodes, (node: INavNode) => isNodeVisible(node, this._userGroups, audiences.hide));
+  }
+
+  /**
+   * Render the custom hub navigation into the Top placeholder
+   */
+  private _renderTopNav(): void {
+    try {
+      if (this._config.renderMode !== 'replace' || this._navNodes.length === 0) return;
+
+      const element = this._getTopSlot('hubNav');
+      if (!element) return;
+
+      const matcher = this._getSiteMatcher();
+      matcher.registerWebs(flattenNavUrls(this._navNodes));
+      const sameHubSiteKeys = this._sameHubSiteKeys(matcher);
+      const nodes = this._visibleNavNodes();
+
+      const activePath = this._config.activePath.enabled
+        ? findActivePath(nodes, (url: string) => matcher.activePathScore(url))
+        : null;
+
+      ReactDOM.render(
+        React.createElement(GlobalHubNavigation, {
+          nodes,
+          getLinkState: (node: INavNode) => this._navLinkState(node, matcher, sameHubSiteKeys, activePath),
+          collapseBelowPx: this._config.mobile.enabled ? this._config.mobile.collapseBelowPx : 0
+        }),
+        element
+      );
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to render hub navigation: ${error}`));
+    }
+  }
+
+  /**
+   * Classes and current-location state of a node in the custom hub navigation
+   */
+  private _navLinkState(node: INavNode, matcher: SiteMatcher, sameHubSiteKeys: string[] | null, activePath: IActivePath | null): INavLinkState {
+    const a11y = this._config.accessibility;
+    const classes = node.Url ? this._classifyLink(node.Url, node.Title, matcher.match(node.Url), sameHubSiteKeys).classes : [];
+    const isCurrentUrl = (url: string): boolean => !!url && matcher.match(url).isCurrent;
+
+    let isCurrent: boolean;
+    let isAncestor: boolean;
+    if (this._config.activePath.enabled) {
+      isCurrent = !!activePath && activePath.node === node;
+      isAncestor = !!activePath && activePath.ancestors.indexOf(node) > -1;
+      if (isCurrent) classes.push(ACTIVE_CURRENT_CLASS);
+      if (isAncestor) classes.push(ACTIVE_ANCESTOR_CLASS);
+    } else {
+      isCurrent = isCurrentUrl(node.Url);
+      isAncestor = !isCurrent && someNode(node.Children, (child: INavNode) => isCurrentUrl(child.Url));
+    }
+
+    let ariaCurrent: AriaCurrentValue | undefined;
+    if (a11y.ariaCurrent && isCurrent) ariaCurrent = matcher.isCurrentPage(node.Url) ? 'page' : 'location';
+    else if (a11y.ariaCurrent && isAncestor) ariaCurrent = 'location';
+
+    return {
+      className: classes.join(' '),
+      ariaCurrent,
+      suffix: isCurrent && a11y.currentSuffix ? strings.CurrentSiteSuffix : ''
+    };
+  }
+
+  /**
+   * Load the current hub with its parent and sibling hubs for the hub switcher and
+   * breadcrumb, then render them
+   */
+  private async _loadHubFamily(): Promise<void> {
+    try {
+      const hubSiteId = (this.context.pageContext.legacyPageContext.hubSiteId || '').replace(/[{}]/g, '').toLowerCase();
+      if (!(this._config.hubSwitcher.enabled || this._config.breadcrumb.enabled) || !hubSiteId) {
+        this._hubFamily = null;
+        this._renderHubSwitcher();
+        this._renderBreadcrumb();
+        return;
+      }
+      if (this._hubFamily && this._hubFamily.current.id === hubSiteId) return;
+
+      const family = await getHubFamily(this.context.pageContext.web.absoluteUrl, hubSiteId, this.context.spHttpClient, {
+        cache: this._cache || undefined,
+        ttlMs: this._cacheTtlMs(),
+        timeoutMs: this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS,
+        signal: this._abortController.signal
+      });
+      if (this._abortController.signal.aborted) return;
+
+      this._hubFamily = family;
+      this._renderHubSwitcher();
+      this._renderBreadcrumb();
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to load related hubs for the hub switcher and breadcrumb: ${error}`);
+    }
+  }
+
+  /**
+   * Render the hub switcher into the Top placeholder, or remove it when turned off
+   */
+  private _renderHubSwitcher(): void {
+    try {
+      const family = this._hubFamily;
+      if (!this._config.hubSwitcher.enabled || !family) {
+        this._clearTopSlot('hubSwitcher');
+        return;
+      }
 
-      this._observer.observe(document.body, {
-        childList: true,
-        subtree: true
+      const element = this._getTopSlot('hubSwitcher');
+      if (!element) return;
+
+      ReactDOM.render(
+        React.createElement(HubSwitcher, {
+          family,
+          label: this._config.hubSwitcher.label !== undefined ? this._config.hubSwitcher.label : strings.HubSwitcherLabel,
+          getLinkState: (isCurrent: boolean) => this._hubLinkState(isCurrent)
+        }),
+        element
+      );
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to render hub switcher: ${error}`));
+    }
+  }
+
+  /**
+   * Hub switcher links use the current/other site styles, the current hub being "current"
+   */
+  private _hubLinkState(isCurrent: boolean): INavLinkState {
+    const a11y = this._config.accessibility;
+    return {
+      className: isCurrent ? 'hub-nav-current-site' : 'hub-nav-other-site',
+      ariaCurrent: isCurrent && a11y.ariaCurrent ? 'location' : undefined,
+      suffix: isCurrent && a11y.currentSuffix ? strings.CurrentHubSuffix : ''
+    };
+  }
+
+  /**
+   * Render the breadcrumb: hub › site › hub nav ancestors › page. The hub crumb
+   * appears once the hub family is loaded, the nav crumbs once the tree is.
+   */
+  private _renderBreadcrumb(): void {
+    try {
+      if (!this._config.breadcrumb.enabled) {
+        this._clearTopSlot('breadcrumb');
+        return;
+      }
+
+      const element = this._getTopSlot('breadcrumb');
+      if (!element) return;
+
+      const web = this.context.pageContext.web;
+      const matcher = this._getSiteMatcher();
+      const activePath = findActivePath(this._visibleNavNodes(), (url: string) => matcher.activePathScore(url));
+      const hub = this._hubFamily ? this._hubFamily.current : null;
+
+      const crumbs = buildBreadcrumb({
+        hub: hub ? { title: hub.title, url: hub.url } : null,
+        site: { title: web.title, url: web.absoluteUrl },
+        navPath: activePath ? activePath.ancestors.concat(activePath.node) : [],
+        page: { title: document.title, url: `${window.location.origin}${window.location.pathname}` }
+      }, (url: string) => matcher.urlKey(url));
+
+      ReactDOM.render(
+        React.createElement(Breadcrumb, {
+          crumbs,
+          collapseBelowPx: this._config.breadcrumb.collapseBelowPx,
+          getLinkState: (crumb: ICrumb, isCurrent: boolean) => this._crumbLinkState(crumb, isCurrent, matcher)
+        }),
+        element
+      );
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to render breadcrumb: ${error}`));
+    }
+  }
+
+  /**
+   * Breadcrumb links use the current/other site styles, the last crumb being "current"
+   */
+  private _crumbLinkState(crumb: ICrumb, isCurrent: boolean, matcher: SiteMatcher): INavLinkState {
+    let ariaCurrent: AriaCurrentValue | undefined;
+    if (isCurrent && this._config.accessibility.ariaCurrent) {
+      ariaCurrent = matcher.isCurrentPage(crumb.url) ? 'page' : 'location';
+    }
+    return {
+      className: isCurrent ? 'hub-nav-current-site' : 'hub-nav-other-site',
+      ariaCurrent,
+      suffix: ''
+    };
+  }
+
+  /** Re-render everything in the Top placeholder (also when SharePoint recreates placeholders) */
+  private _renderTopPlaceholder(): void {
+    // Loads started while active can finish after deactivation
+    if (!this._active) return;
+    this._renderHubSwitcher();
+    this._renderTopNav();
+    this._renderBreadcrumb();
+  }
+
+  /**
+   * Element for one part of the Top placeholder, creating the placeholder and
+   * keeping the parts in TOP_SLOTS order. Null when the placeholder is not available.
+   */
+  private _getTopSlot(slot: TopSlot): HTMLDivElement | null {
+    if (!this._topPlaceholder) {
+      this._topPlaceholder = this.context.placeholderProvider.tryCreateContent(PlaceholderName.Top, {
+        onDispose: () => this._disposeTopPlaceholder()
       });
+    }
+    if (!this._topPlaceholder) {
+      Log.warn(LOG_SOURCE, 'Top placeholder is not available');
+      return null;
+    }
+
+    let element = this._topSlots[slot];
+    if (!element) {
+      element = document.createElement('div');
+      element.setAttribute('data-hub-nav-slot', slot);
+      const next = TOP_SLOTS.slice(TOP_SLOTS.indexOf(slot) + 1)
+        .map((later: TopSlot) => this._topSlots[later])
+        .filter((later: HTMLDivElement | undefined) => !!later)[0];
+      this._topPlaceholder.domElement.insertBefore(element, next || null);
+      this._topSlots[slot] = element;
+    }
+    return element;
+  }
+
+  /** Unmount one part of the Top placeholder, keeping its place */
+  private _clearTopSlot(slot: TopSlot): void {
+    const element = this._topSlots[slot];
+    if (element) ReactDOM.unmountComponentAtNode(element);
+  }
+
+  /** Unmount every part of the Top placeholder */
+  private _disposeTopPlaceholder(): void {
+    Object.keys(this._topSlots).forEach((slot: string) => {
+      ReactDOM.unmountComponentAtNode(this._topSlots[slot]);
+      this._topSlots[slot].remove();
+    });
+    this._topSlots = {};
+  }
+
+  /**
+   * Render the diagnostics panel (only when turned on with ?hubnavdebug=1)
+   */
+  private _renderDebugPanel(): void {
+    try {
+      if (!this._debugTrace) return;
+
+      if (!this._debugElement) {
+        this._debugElement = document.createElement('div');
+        document.body.appendChild(this._debugElement);
+      }
+
+      const matcher = this._getSiteMatcher();
+      const resolved = this._resolvedConfig;
+      ReactDOM.render(
+        React.createElement(DebugPanel, {
+          snapshot: {
+            layers: resolved ? resolved.layers : [],
+            warnings: (resolved ? resolved.warnings : []).concat(this._contrastWarnings),
+            configSource: this._configSource,
+            configLoadMs: this._configLoadMs,
+            profile: resolved ? resolved.profile || '' : '',
+            activation: this._activationReason,
+            currentSiteKey: matcher.currentSiteKey,
+            currentWebKey: matcher.currentWebKey,
+            matchMode: this._config.matchMode,
+            renderMode: this._config.renderMode,
+            passes: this._debugTrace.passes,
+            selectorMatches: this._selectorMatches,
+            links: this._debugTrace.links
+          },
+          onClose: () => this._disposeDebugPanel()
+        }),
+        this._debugElement
+      );
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to render diagnostics panel: ${error}`);
+    }
+  }
+
+  /** Remove the diagnostics panel and stop collecting traces */
+  private _disposeDebugPanel(): void {
+    this._debugTrace = null;
+    if (this._debugElement) {
+      ReactDOM.unmountComponentAtNode(this._debugElement);
+      this._debugElement.remove();
+      this._debugElement = null;
+    }
+  }
+
+  /**
+   * Open the config editor (?hubnavedit=1) for users who can manage the web
+   */
+  private async _openConfigEditor(): Promise<void> {
+    try {
+      if (!this.context.pageContext.web.permissions.hasPermission(SPPermission.manageWeb)) {
+        Log.warn(LOG_SOURCE, 'Config editor needs permission to manage the site');
+        return;
+      }
+
+      const resolver = this._createConfigResolver();
+      const timeoutMs = this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS;
+      this._editorFile = await readConfigFile(this.context.spHttpClient, resolver.siteConfigUrl, timeoutMs);
+      if (this._abortController.signal.aborted) return;
+
+      this._editorBaseConfig = this._config;
+      this._renderConfigEditor();
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to open config editor: ${error}`));
+    }
+  }
+
+  private _renderConfigEditor(): void {
+    try {
+      if (!this._editorFile || !this._editorBaseConfig) return;
+
+      if (!this._editorElement) {
+        this._editorElement = document.createElement('div');
+        document.body.appendChild(this._editorElement);
+      }
+
+      ReactDOM.render(
+        React.createElement(ConfigEditor, {
+          config: this._editorBaseConfig,
+          themeSlots: this._themeSlots,
+          fileUrl: this._editorFile.url,
+          overrides: this._editorOverrides(),
+          profile: this._resolvedConfig ? this._resolvedConfig.profile : '',
+          onPreview: (config: INavConfig) => this._setConfig(config),
+          onSave: (config: INavConfig) => this._saveConfig(config),
+          onClose: () => this._closeConfigEditor()
+        }),
+        this._editorElement
+      );
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to render config editor: ${error}`);
+    }
+  }
+
+  /** Config values the environment profile or component properties set over the config files */
+  private _editorOverrides(): { [keyPath: string]: ConfigLayer } {
+    const overrides: { [keyPath: string]: ConfigLayer } = {};
+    const sources = this._resolvedConfig ? this._resolvedConfig.sources : {};
+    Object.keys(sources).forEach((path: string) => {
+      if (sources[path] === 'profile' || sources[path] === 'properties') overrides[path] = sources[path];
+    });
+    return overrides;
+  }
+
+  /**
+   * Write the edited keys to the site's config file if nobody changed it since it
+   * was read, and drop the cached copies so other pages load the new version
+   */
+  private async _saveConfig(config: INavConfig): Promise<void> {
+    if (!this._editorFile || !this._editorBaseConfig) return;
+
+    const resolver = this._createConfigResolver();
+    const json = applyConfigChanges(this._editorFile, this._editorBaseConfig, config);
+    this._editorFile = await saveConfigFile(
+      this.context.spHttpClient,
+      this.context.pageContext.web.absoluteUrl,
+      this._editorFile,
+      json,
+      this.properties.configTimeoutMs || DEFAULT_CONFIG_TIMEOUT_MS
+    );
+    Log.info(LOG_SOURCE, `Config saved to ${this._editorFile.url}`);
+
+    resolver.forgetSiteConfig();
+    if (this._cache) this._cache.remove(this._configCacheKey(resolver));
+    if (this._configChannel) this._configChannel.notifySaved(this._editorFile.url);
+    this._editorBaseConfig = config;
+    this._setConfig(config);
+    this._renderConfigEditor();
+  }
+
+  /** Remove the config editor, undoing an unsaved preview */
+  private _closeConfigEditor(): void {
+    if (this._editorElement) {
+      ReactDOM.unmountComponentAtNode(this._editorElement);
+      this._editorElement.remove();
+      this._editorElement = null;
+    }
+    if (this._editorBaseConfig) this._setConfig(this._editorBaseConfig);
+    this._editorBaseConfig = null;
+    this._editorFile = null;
+  }
+
+  /**
+   * Listen for nav link clicks with one capturing listener on the document, which
+   * sees clicks in mega menu layers too and runs before SharePoint's own navigation
+   */
+  private _startTelemetry(): void {
+    try {
+      const telemetry = this._config.telemetry;
+      if (!telemetry.enabled || this._telemetry) return;
+
+      if (isTelemetryOptedOut(this.context.pageContext.user.loginName, telemetry.optOutUsers, telemetry.honorDoNotTrack)) {
+        Log.verbose(LOG_SOURCE, 'User opted out of navigation telemetry');
+        return;
+      }
+      if (telemetry.sink === 'http' && !telemetry.endpoint) {
+        Log.warn(LOG_SOURCE, 'Telemetry sink "http" needs an endpoint, telemetry is off');
+        return;
+      }
+
+      this._telemetry = new TelemetryQueue(this._createTelemetrySink(), {
+        batchSize: telemetry.batchSize,
+        flushIntervalMs: telemetry.flushIntervalMs,
+        onError: (error: unknown) => Log.warn(LOG_SOURCE, `Failed to send navigation telemetry: ${error}`)
+      });
+      this._navClickListener = (event: MouseEvent) => this._onNavClick(event);
+      document.addEventListener('click', this._navClickListener, true);
+    } catch (error) {
+      Log.error(LOG_SOURCE, new Error(`Failed to start navigation telemetry: ${error}`));
+    }
+  }
+
+  /** Stop listening for clicks and send what is queued */
+  private _stopTelemetry(): void {
+    if (this._navClickListener) {
+      document.removeEventListener('click', this._navClickListener, true);
+      this._navClickListener = null;
+    }
+    if (this._telemetry) {
+      this._telemetry.dispose();
+      this._telemetry = null;
+    }
+  }
+
+  private _createTelemetrySink(): ITelemetrySink {
+    const telemetry = this._config.telemetry;
+    switch (telemetry.sink) {
+      case 'list':
+        return new ListSink(
+          this.context.spHttpClient,
+          telemetry.listSiteUrl || this._hubSiteUrl || this.context.pageContext.web.absoluteUrl,
+          telemetry.listTitle
+        );
+      case 'http':
+        return new HttpSink(this.context.httpClient, telemetry.endpoint || '');
+      default:
+        return new ConsoleSink();
+    }
+  }
+
+  /**
+   * Queue a click on a hub nav, mega menu or own component link (sampled)
+   */
+  private _onNavClick(event: MouseEvent): void {
+    try {
+      if (!this._telemetry || !(event.target instanceof Element)) return;
+      const link = event.target.closest('a[href]') as HTMLAnchorElement | null;
+      if (!link) return;
+
+      const region = this._linkRegion(link);
+      if (!region || Math.random() >= this._config.telemetry.sampleRate) return;
+
+      this._telemetry.track({
+        timestamp: new Date().toISOString(),
+        title: linkText(link).trim(),
+        url: link.href,
+        sourceSite: this.context.pageContext.web.absoluteUrl,
+        depth: linkDepth(link, region),
+        isCurrentSite: this._getSiteMatcher().match(link.href).isCurrent,
+        region
+      });
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to record navigation click: ${error}`);
+    }
+  }
+
+  /** Telemetry region of a link, or "" for links outside the navigation */
+  private _linkRegion(link: Element): string {
+    const own = Object.keys(OWN_REGION_SELECTORS).filter((region: string) => !!link.closest(OWN_REGION_SELECTORS[region]))[0];
+    if (own) return own;
+    const found = findMatchingSelector(link, this._getSelectors());
+    return found ? found.region : '';
+  }
+
+  /**
+   * Site matcher for the current page context and config. Kept between passes so
+   * webs registered from earlier links still count; reset on navigation and config change.
+   */
+  private _getSiteMatcher(): SiteMatcher {
+    if (this._siteMatcher) return this._siteMatcher;
+
+    const pageContext = this.context.pageContext;
+    this._siteMatcher = new SiteMatcher(
+      {
+        webAbsoluteUrl: pageContext.web.absoluteUrl,
+        siteAbsoluteUrl: pageContext.site.absoluteUrl,
+        pageServerRelativeUrl: window.location.pathname
+      },
+      {
+        matchMode: this._config.matchMode,
+        managedPaths: this._config.managedPaths,
+        hostAliases: this._config.hostAliases
+      }
+    );
+    return this._siteMatcher;
+  }
+
+  /**
+   * Observe the hub nav container and mega menu layers, highlighting added links once per frame
+   */
+  private _observeDOM(): void {
+    try {
+      if (this._navObserver) return;
+
+      this._navObserver = new NavObserver({
+        containerSelectors: HUB_NAV_CONTAINER_SELECTORS,
+        containerWaitMs: HUB_NAV_CONTAINER_WAIT_MS,
+        layerSelectors: LAYER_SELECTORS,
+        onNodesAdded: (roots: Element[]) => {
+          try {
+            this._applyHighlighting(roots);
+          } catch (error) {
+            Log.error(LOG_SOURCE, new Error(`Observer callback failed: ${error}`));
+          }
+        }
+      });
+      this._navObserver.start();
     } catch (error) {
       Log.error(LOG_SOURCE, new Error(`Failed to setup DOM observer: ${error}`));
     }
@@ -222,9 +1497,74 @@ export default class HubNavigationApplicationCustomizer
 
   protected onDispose(): void {
     try {
-      if (this._observer) {
-        this._observer.disconnect();
-        this._observer = null;
+      if (this._themeProvider) {
+        this._themeProvider.themeChangedEvent.remove(this, this._onThemeChanged);
+        this._themeProvider = null;
+      }
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to remove theme handler: ${error}`);
+    }
+
+    try {
+      this._stopTelemetry();
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to stop navigation telemetry: ${error}`);
+    }
+
+    try {
+      this.context.application.navigatedEvent.remove(this, this._onNavigated);
+      if (this._navigationController) {
+        this._navigationController.abort();
+        this._navigationController = null;
+      }
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to remove navigation handler: ${error}`);
+    }
+
+    try {
+      this._abortController.abort();
+      window.clearTimeout(this._selectorCheckTimer);
+      window.clearInterval(this._configRefreshTimer);
+      if (this._configChannel) {
+        this._configChannel.close();
+        this._configChannel = null;
+      }
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to abort pending requests and timers: ${error}`);
+    }
+
+    try {
+      this.context.placeholderProvider.changedEvent.remove(this, this._renderTopPlaceholder);
+      this._disposeTopPlaceholder();
+      if (this._topPlaceholder) {
+        this._topPlaceholder.dispose();
+        this._topPlaceholder = undefined;
+      }
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to dispose hub navigation: ${error}`);
+    }
+
+    try {
+      this._disposeDebugPanel();
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to remove diagnostics panel: ${error}`);
+    }
+
+    try {
+      if (this._editorElement) {
+        ReactDOM.unmountComponentAtNode(this._editorElement);
+        this._editorElement.remove();
+        this._editorElement = null;
+      }
+    } catch (error) {
+      Log.warn(LOG_SOURCE, `Failed to remove config editor: ${error}`);
+    }
+
+    try {
+      if (this._navObserver) {
+        Log.verbose(LOG_SOURCE, `Highlight passes: ${this._highlightPassCount}, observer batches: ${this._navObserver.batchCount}`);
+        this._navObserver.stop();
+        this._navObserver = null;
       }
     } catch (error) {
       Log.warn(LOG_SOURCE, `Failed to disconnect observer: ${error}`);
@@ -240,12 +1580,83 @@ export default class HubNavigationApplicationCustomizer
     }
 
     try {
-      if (this._throttleTimer) {
-        clearTimeout(this._throttleTimer);
-        this._throttleTimer = null;
+      if (this._liveRegion) {
+        this._liveRegion.remove();
+        this._liveRegion = null;
       }
+      this._removeMarkers();
     } catch (error) {
-      Log.warn(LOG_SOURCE, `Failed to clear throttle timer: ${error}`);
+      Log.warn(LOG_SOURCE, `Failed to remove highlight classes: ${error}`);
     }
   }
 }
+
+/** Remove the link classes recorded by the last highlight pass */
+function removeLinkClasses(link: Element): void {
+  const applied = link.getAttribute(LINK_CLASSES_ATTRIBUTE);
+  if (applied) {
+    link.classList.remove(...applied.split(' '));
+    link.removeAttribute(LINK_CLASSES_ATTRIBUTE);
+  }
+}
+
+/**
+ * Elements matching `selector` inside `roots` (including the roots themselves), or in the whole document
+ */
+function queryAll(roots: Element[] | undefined, selector: string): Element[] {
+  const found: Element[] = [];
+  const add = (element: Element): void => {
+    if (found.indexOf(element) === -1) found.push(element);
+  };
+
+  if (!roots) {
+    document.querySelectorAll(selector).forEach(add);
+    return found;
+  }
+
+  roots.forEach((root: Element) => {
+    if (root.matches(selector)) add(root);
+    root.querySelectorAll(selector).forEach(add);
+  });
+  return found;
+}
+
+/** Put `className` on exactly the given elements, removing it everywhere else */
+function setClassOn(className: string, elements: Element[]): void {
+  document.querySelectorAll(`.${className}`).forEach((element: Element) => {
+    if (elements.indexOf(element) === -1) element.classList.remove(className);
+  });
+  elements.forEach((element: Element) => element.classList.add(className));
+}
+
+/** True when a node anywhere in the tree satisfies `predicate` */
+function someNode(nodes: INavNode[], predicate: (node: INavNode) => boolean): boolean {
+  return nodes.some((node: INavNode) => predicate(node) || someNode(node.Children, predicate));
+}
+
+/**
+ * Nav level of a clicked link: set by our own components, otherwise 0 in the hub
+ * nav, 1 for mega menu headings and flyout items and 2 below a mega menu heading
+ */
+function linkDepth(link: Element, region: string): number {
+  const own = link.getAttribute(LINK_DEPTH_ATTRIBUTE);
+  if (own !== null) return parseInt(own, 10);
+  if (region !== 'megaMenu') return 0;
+  if (link.matches(MENU_HEADING_LINK_SELECTOR)) return 1;
+  return link.closest(MENU_SECTION_SELECTOR) ? 2 : 1;
+}
+
+/** Every URL in a navigation tree */
+function flattenNavUrls(nodes: INavNode[]): string[] {
+  const urls: string[] = [];
+  nodes.forEach((node: INavNode) => {
+    if (node.Url) urls.push(node.Url);
+    urls.push(...flattenNavUrls(node.Children));
+  });
+  return urls;
+}
+
+/** Milliseconds since `started`, rounded to 0.1 ms */
+function elapsedMs(started: number): number {
+  return Math.round((performance.now() - started) * 10) / 10;
+}
@@ -0,0 +1,383 @@
+/** Current hub-nav-config.json schema version */
+export const NAV_CONFIG_SCHEMA_VERSION = 2;
+
+/** How a navigation link is compared with the current page */
+export type SiteMatchMode = 'site' | 'web' | 'page';
+
+/**
+ * "highlight" restyles SharePoint's own hub navigation; "replace" hides it and
+ * renders the hub's navigation in the Top placeholder
+ */
+export type RenderMode = 'highlight' | 'replace';
+
+/**
+ * Condition on the current site. Every field that is set must match.
+ * Text fields take a glob ("/sites/int-*") or a regex literal ("/^\/sites\/int$/i").
+ * Values are matched in their original case: globs always ignore case, regex
+ * literals only with the "i" flag.
+ */
+export interface IActivationRule {
+  /** Server-relative URL of the current web */
+  url?: string;
+  /** Hub site id (exact, case-insensitive) */
+  hubSiteId?: string;
+  /** Web template (e.g., "SITEPAGEPUBLISHING#0", "GROUP#0") */
+  siteTemplate?: string;
+  /** Tenant host (e.g., "contoso.sharepoint.com") */
+  host?: string;
+}
+
+/** Where the customizer runs */
+export interface IActivationConfig {
+  /** Run only on sites matching one of these rules (empty = everywhere) */
+  include: IActivationRule[];
+  /** Never run on sites matching one of these rules */
+  exclude: IActivationRule[];
+}
+
+/** Styling for hub nav labels and mega menu section headings */
+export interface IMenuHeadingConfig {
+  /** Style headings at all (e.g., true) */
+  enabled: boolean;
+  /** Heading color (e.g., "#d13438") */
+  color: string;
+  /** Heading font weight (e.g., 600) */
+  fontWeight: number;
+  /** Heading color on hover (e.g., "#a4262c") */
+  hoverColor: string;
+}
+
+/** Extra marker on the current site link besides its colour */
+export type IndicatorStyle = 'none' | 'underline' | 'bar' | 'pill' | 'icon';
+
+/**
+ * Current site indicator. Colours here and elsewhere in the config may name a
+ * theme slot (e.g., "themePrimary", "bodyText") instead of a CSS colour.
+ */
+export interface IIndicatorConfig {
+  /** Underline, bottom border bar, background pill or leading icon (e.g., "bar") */
+  style: IndicatorStyle;
+  /** Underline, bar and icon colour (e.g., "themePrimary") */
+  color: string;
+  /** Background of the "pill" style (e.g., "themeLighter") */
+  pillBackground: string;
+  /** Character shown before the link in "icon" style (e.g., "▸") */
+  icon: string;
+}
+
+/** Interaction state colours for nav links; unset states keep SharePoint's look */
+export interface ILinkStatesConfig {
+  /** Link colour on hover (e.g., "themeDark") */
+  hoverColor?: string;
+  /** Keyboard focus outline colour (e.g., "themePrimary") */
+  focusColor?: string;
+  /** Colour of visited links to other sites (e.g., "#5c2d91") */
+  visitedColor?: string;
+}
+
+/**
+ * Deep active-path mode: instead of every link to the current site, only the link
+ * that best matches the current page is current; its heading and top-level item are ancestors
+ */
+export interface IActivePathConfig {
+  /** Use active-path highlighting (e.g., true) */
+  enabled: boolean;
+  /** Color of the best-matching link (e.g., "#D4A017") */
+  currentColor: string;
+  /** Font weight of the best-matching link (e.g., 700) */
+  currentFontWeight: number;
+  /** Color of its mega menu heading and top-level hub nav item (e.g., "#000000") */
+  ancestorColor: string;
+  /** Font weight of its heading and top-level item (e.g., 600) */
+  ancestorFontWeight: number;
+}
+
+/** Screen reader support for the current location */
+export interface IAccessibilityConfig {
+  /** Set aria-current on the current site link and its mega menu heading (e.g., true) */
+  ariaCurrent: boolean;
+  /** Add a visually hidden "(current site)" after the current site link (e.g., false) */
+  currentSuffix: boolean;
+  /** Announce the current site in a polite live region after in-page navigation (e.g., false) */
+  announceNavigation: boolean;
+}
+
+/** Switcher listing the current hub with its parent and sibling hubs */
+export interface IHubSwitcherConfig {
+  /** Show the switcher in the Top placeholder (e.g., true) */
+  enabled: boolean;
+  /** Text before the current hub's name (e.g., "Hub:"; "" for none; unset for the localized default) */
+  label?: string;
+}
+
+/** Breadcrumb trail (hub › site › navigation ancestors › page) in the Top placeholder */
+export interface IBreadcrumbConfig {
+  /** Show the breadcrumb (e.g., true) */
+  enabled: boolean;
+  /** Viewport width below which only the first and last crumbs are shown (e.g., 640) */
+  collapseBelowPx: number;
+}
+
+/** Collapsed navigation for narrow viewports in "replace" render mode */
+export interface IMobileNavConfig {
+  /** Collapse into a menu button and slide-in panel on narrow viewports (e.g., true) */
+  enabled: boolean;
+  /** Viewport width below which the navigation collapses (e.g., 768) */
+  collapseBelowPx: number;
+}
+
+/**
+ * Hides hub nav nodes from members of some groups, whatever their audience targeting.
+ * Every condition that is set must match the node.
+ */
+export interface IAudienceHideRule {
+  /** Group ids or display names the node is hidden from (e.g., ["Contractors"]) */
+  groups: string[];
+  /** Node title, glob or regex (e.g., "Payroll*") */
+  title?: string;
+  /** Node URL, glob or regex (e.g., "https://contoso.sharepoint.com/sites/finance*") */
+  url?: string;
+}
+
+/** Audience targeting of the hub navigation rendered in "replace" mode */
+export interface IAudienceConfig {
+  /** Show targeted nodes only to members of their audiences and apply the hide rules (e.g., true) */
+  enabled: boolean;
+  /** Nodes force-hidden per group */
+  hide: IAudienceHideRule[];
+}
+
+/** Where click telemetry is sent */
+export type TelemetrySinkType = 'console' | 'list' | 'http';
+
+/** Navigation click telemetry */
+export interface ITelemetryConfig {
+  /** Record clicks on hub nav, mega menu and the customizer's own links (e.g., true) */
+  enabled: boolean;
+  /** Browser console, a SharePoint list or an HTTPS endpoint (e.g., "list") */
+  sink: TelemetrySinkType;
+  /** List for the "list" sink (e.g., "HubNavClicks") */
+  listTitle: string;
+  /** Site holding the list (e.g., "https://contoso.sharepoint.com/sites/intranet"; default: the hub site) */
+  listSiteUrl?: string;
+  /** HTTPS endpoint for the "http" sink, receiving JSON arrays of events */
+  endpoint?: string;
+  /** Share of clicks recorded, 0–1 (e.g., 0.25) */
+  sampleRate: number;
+  /** Events sent per request (e.g., 20) */
+  batchSize: number;
+  /** Longest an event waits before it is sent (ms, e.g., 10000) */
+  flushIntervalMs: number;
+  /** Record nothing for browsers sending Do Not Track or Global Privacy Control (e.g., true) */
+  honorDoNotTrack: boolean;
+  /** Login names of users who opted out (e.g., ["jane@contoso.com"]) */
+  optOutUsers: string[];
+}
+
+/**
+ * Condition selecting an environment profile. Every field that is set must match;
+ * both take a glob or a regex literal and match case like activation rules.
+ */
+export interface IProfileMatch {
+  /** Tenant host (e.g., "contoso-test.sharepoint.com") */
+  host?: string;
+  /** Server-relative URL of the current web (e.g., "/sites/uat-int*") */
+  url?: string;
+}
+
+/** Config variant for one environment: a test or production tenant, or a family of sites */
+export interface IEnvironmentProfile {
+  /** Shown in logs and diagnostics (e.g., "uat") */
+  name: string;
+  /** Sites the profile applies to */
+  match: IProfileMatch;
+  /** Values used instead of the merged config's, e.g., colours, selectors, activation or renderMode */
+  overrides: Partial<INavConfig>;
+}
+
+/** Part of the page that navigation link selectors belong to */
+export type SelectorRegion = 'hubNav' | 'megaMenu' | 'siteHeader';
+
+/** Changes to the built-in link selectors of one region */
+export interface ISelectorOverrides {
+  /** Extra CSS selectors for links (e.g., ["#myHeader a"]) */
+  add: string[];
+  /** Built-in selectors to stop using (e.g., ["nav a[href*=\"/sites/\"]"]) */
+  remove: string[];
+}
+
+/** Link selector overrides per region */
+export type ISelectorConfig = { [R in SelectorRegion]: ISelectorOverrides };
+
+/** Where a link's site sits relative to the current site's hub */
+export type HubRelation = 'same' | 'other';
+
+/**
+ * Condition on a navigation link. Every field that is set must match.
+ * Text fields take a glob or a regex literal, like activation rules.
+ */
+export interface IStyleRuleMatch {
+  /** Absolute link URL (e.g., "https://contoso.sharepoint.com/sites/hr/*") */
+  url?: string;
+  /** true: link leaves the tenant host; false: link stays on it */
+  external?: boolean;
+  /** Link's site collection belongs to the current hub ("same") or not ("other") */
+  hub?: HubRelation;
+  /** File extensions without the dot (e.g., ["pdf", "docx"]) */
+  extension?: string[];
+  /** Link text (e.g., "Archive*") */
+  title?: string;
+  /** true: link points at the current site (per matchMode) */
+  current?: boolean;
+}
+
+/** Declarations generated for a style rule */
+export interface ILinkStyle {
+  color?: string;
+  fontWeight?: number;
+  backgroundColor?: string;
+  textDecoration?: 'none' | 'underline' | 'line-through' | 'overline';
+  fontStyle?: 'normal' | 'italic';
+}
+
+/** A link condition and how matching links look; the first matching rule wins */
+export interface IStyleRule {
+  match: IStyleRuleMatch;
+  /** Generated CSS for matching links */
+  style?: ILinkStyle;
+  /** Extra class names for matching links, styled by the site's own CSS */
+  className?: string;
+}
+
+/**
+ * Configuration interface for Hub Navigation styling
+ * This config is loaded from SiteAssets/hub-nav-config.json
+ */
+export interface INavConfig {
+  /** Version of the config file format (files without one are treated as version 1) */
+  schemaVersion: number;
+  /** Color for current site link (e.g., "#d32f2f") */
+  currentSiteColor: string;
+  /** Font weight for current site link (e.g., 700) */
+  currentSiteFontWeight: number;
+  /** Color for other site links (e.g., "#000000") */
+  otherSiteColor: string;
+  /** Font weight for other site links (e.g., 400) */
+  otherSiteFontWeight: number;
+  /** Match links by site collection, by (sub)web or by exact page (e.g., "site") */
+  matchMode: SiteMatchMode;
+  /** Managed paths that host site collections (e.g., ["sites", "teams"]) */
+  managedPaths: string[];
+  /** Extra host names that serve the same tenant (e.g., ["intranet.contoso.com"]) */
+  hostAliases: string[];
+  /** Include/exclude rules deciding which sites the customizer runs on */
+  activation: IActivationConfig;
+  /** Restyle the out-of-box hub nav or render our own (e.g., "highlight") */
+  renderMode: RenderMode;
+  /** Hub nav label and mega menu heading styling */
+  menuHeadings: IMenuHeadingConfig;
+  /** Additions to and removals from the built-in link selectors */
+  selectors: ISelectorConfig;
+  /**
+   * Ordered link styling rules, tried before the built-in current/other site styles
+   * (currentSiteColor etc.); links no rule matches fall back to those
+   */
+  styleRules: IStyleRule[];
+  /** Current site indicator besides colour and weight */
+  indicator: IIndicatorConfig;
+  /** Hover, focus and visited colours */
+  linkStates: ILinkStatesConfig;
+  /** aria-current, hidden suffix and navigation announcements */
+  accessibility: IAccessibilityConfig;
+  /** Highlight the best-matching page link and its ancestors instead of the whole site */
+  activePath: IActivePathConfig;
+  /** Parent and sibling hub switcher */
+  hubSwitcher: IHubSwitcherConfig;
+  /** Breadcrumb above the page */
+  breadcrumb: IBreadcrumbConfig;
+  /** Collapsed custom hub navigation on phones and narrow windows */
+  mobile: IMobileNavConfig;
+  /** Audience targeting and per-group hiding of hub nav nodes */
+  audiences: IAudienceConfig;
+  /** Navigation click telemetry */
+  telemetry: ITelemetryConfig;
+  /**
+   * Environment profiles; the first one matching the site is applied over the
+   * config files (component properties still win)
+   */
+  profiles: IEnvironmentProfile[];
+}
+
+/** Default configuration when JSON file is not available */
+export const DEFAULT_NAV_CONFIG: INavConfig = {
+  schemaVersion: NAV_CONFIG_SCHEMA_VERSION,
+  currentSiteColor: '#D4A017',
+  currentSiteFontWeight: 700,
+  otherSiteColor: '#000000',
+  otherSiteFontWeight: 400,
+  matchMode: 'site',
+  managedPaths: ['sites', 'teams'],
+  hostAliases: [],
+  activation: {
+    include: [],
+    exclude: []
+  },
+  renderMode: 'highlight',
+  menuHeadings: {
+    enabled: false,
+    color: '#d13438',
+    fontWeight: 600,
+    hoverColor: '#a4262c'
+  },
+  selectors: {
+    hubNav: { add: [], remove: [] },
+    megaMenu: { add: [], remove: [] },
+    siteHeader: { add: [], remove: [] }
+  },
+  styleRules: [],
+  indicator: {
+    style: 'none',
+    color: 'themePrimary',
+    pillBackground: 'themeLighter',
+    icon: '▸'
+  },
+  linkStates: {},
+  accessibility: {
+    ariaCurrent: true,
+    currentSuffix: false,
+    announceNavigation: false
+  },
+  activePath: {
+    enabled: false,
+    currentColor: '#D4A017',
+    currentFontWeight: 700,
+    ancestorColor: '#000000',
+    ancestorFontWeight: 600
+  },
+  hubSwitcher: {
+    enabled: false
+  },
+  breadcrumb: {
+    enabled: false,
+    collapseBelowPx: 640
+  },
+  mobile: {
+    enabled: true,
+    collapseBelowPx: 768
+  },
+  audiences: {
+    enabled: true,
+    hide: []
+  },
+  telemetry: {
+    enabled: false,
+    sink: 'console',
+    listTitle: 'HubNavClicks',
+    sampleRate: 1,
+    batchSize: 20,
+    flushIntervalMs: 10000,
+    honorDoNotTrack: true,
+    optOutUsers: []
+  },
+  profiles: []
+};
@@ -0,0 +1,100 @@
+// components/Breadcrumb.tsx
+import * as React from 'react';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
+import type { ICrumb } from '../helpers/Breadcrumb';
+import type { INavLinkState } from './GlobalHubNav';
+import { useNarrowViewport } from './useNarrowViewport';
+
+interface BreadcrumbProps {
+  crumbs: ICrumb[];
+  /** Below this viewport width (px) only the first and last crumbs are shown */
+  collapseBelowPx: number;
+  /** State of a crumb; the last one is the current location */
+  getLinkState: (crumb: ICrumb, isCurrent: boolean) => INavLinkState;
+}
+
+const breadcrumbStyle: React.CSSProperties = {
+  padding: '6px 20px',
+  borderBottom: '1px solid #ddd',
+  fontSize: '13px'
+};
+
+const listStyle: React.CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  listStyle: 'none',
+  margin: 0,
+  padding: 0
+};
+
+const itemStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  minWidth: 0
+};
+
+// Links take colour and weight from the hub-nav-current-site / hub-nav-other-site rules
+const linkStyle: React.CSSProperties = {
+  textDecoration: 'none',
+  padding: '4px 2px',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+  maxWidth: '240px'
+};
+
+const separatorStyle: React.CSSProperties = {
+  margin: '0 6px',
+  color: '#605e5c'
+};
+
+const expandStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: '4px 6px',
+  cursor: 'pointer',
+  font: 'inherit',
+  color: 'inherit'
+};
+
+export const Breadcrumb: React.FC<BreadcrumbProps> = ({ crumbs, collapseBelowPx, getLinkState }) => {
+  const narrow = useNarrowViewport(collapseBelowPx);
+  const [expanded, setExpanded] = React.useState(false);
+  const collapsed = narrow && !expanded && crumbs.length > 2;
+
+  // Start collapsed again when the trail changes (after in-page navigation)
+  const trail = crumbs.map(c => c.url).join('\n');
+  React.useEffect(() => setExpanded(false), [trail]);
+
+  const renderCrumb = (crumb: ICrumb, index: number): JSX.Element => {
+    const state = getLinkState(crumb, index === crumbs.length - 1);
+    const hiddenSuffix = state.suffix ? <span className="hub-nav-sr-only">{state.suffix}</span> : null;
+    return (
+      <li key={crumb.url} style={itemStyle}>
+        {index > 0 && <span style={separatorStyle} aria-hidden="true">›</span>}
+        <a href={crumb.url} className={state.className} style={linkStyle} title={crumb.title} aria-current={state.ariaCurrent} data-hub-nav-depth={index}
+          data-hub-nav-title={crumb.title}>
+          {crumb.title}{hiddenSuffix}
+        </a>
+      </li>
+    );
+  };
+
+  return (
+    <nav style={breadcrumbStyle} aria-label={strings.BreadcrumbAriaLabel} data-hub-nav-breadcrumb="true">
+      <ol style={listStyle}>
+        {collapsed
+          ? [
+            renderCrumb(crumbs[0], 0),
+            <li key="hub-nav-breadcrumb-expand" style={itemStyle}>
+              <span style={separatorStyle} aria-hidden="true">›</span>
+              <button type="button" style={expandStyle} aria-label={strings.BreadcrumbExpand} onClick={() => setExpanded(true)}>…</button>
+            </li>,
+            renderCrumb(crumbs[crumbs.length - 1], crumbs.length - 1)
+          ]
+          : crumbs.map(renderCrumb)}
+      </ol>
+    </nav>
+  );
+};
@@ -0,0 +1,471 @@
+// components/ConfigEditor.tsx
+import * as React from 'react';
+import { Text } from '@microsoft/sp-core-library';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
+import type { INavConfig } from '../INavConfig';
+import { IConfigWarning, IJsonObject, isJsonObject, validateNavConfig } from '../helpers/ConfigValidator';
+import { isConfigConflict } from '../helpers/ConfigFile';
+import type { ConfigLayer } from '../helpers/ConfigResolver';
+import { colorToHex } from '../helpers/Contrast';
+import { IThemeSlots, resolveColor } from '../helpers/ThemeTokens';
+
+interface ConfigEditorProps {
+  /** Effective config when the editor opened */
+  config: INavConfig;
+  /** Theme slots, for showing theme colours in the colour pickers */
+  themeSlots: IThemeSlots;
+  /** Config file that is saved to */
+  fileUrl: string;
+  /** Values set over the config files by the environment profile or component properties, by dotted path */
+  overrides: { [keyPath: string]: ConfigLayer };
+  /** Name of the environment profile applied */
+  profile: string;
+  /** Apply a draft to the page without saving it */
+  onPreview: (config: INavConfig) => void;
+  /** Save a draft; rejects with ConfigConflictError when the file changed meanwhile */
+  onSave: (config: INavConfig) => Promise<void>;
+  onClose: () => void;
+}
+
+/** How a config value is edited */
+type FieldKind = 'color' | 'optionalColor' | 'fontWeight' | 'bool' | 'text' | 'optionalText' | 'number' | 'choice' | 'list' | 'json';
+
+/** One form field, labelled with its dotted config key */
+interface IEditorField {
+  path: string;
+  kind: FieldKind;
+  choices?: string[];
+}
+
+interface IEditorSection {
+  title: string;
+  fields: IEditorField[];
+}
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'conflict' | 'error';
+
+/** Delay between the last edit and its preview (ms) */
+const PREVIEW_DELAY_MS = 150;
+
+/** Every INavConfig option; nested config sections are titled by their key */
+const SECTIONS: IEditorSection[] = [
+  {
+    title: strings.EditorGeneralSection,
+    fields: [
+      { path: 'currentSiteColor', kind: 'color' },
+      { path: 'currentSiteFontWeight', kind: 'fontWeight' },
+      { path: 'otherSiteColor', kind: 'color' },
+      { path: 'otherSiteFontWeight', kind: 'fontWeight' },
+      { path: 'matchMode', kind: 'choice', choices: ['site', 'web', 'page'] },
+      { path: 'renderMode', kind: 'choice', choices: ['highlight', 'replace'] },
+      { path: 'managedPaths', kind: 'list' },
+      { path: 'hostAliases', kind: 'list' }
+    ]
+  },
+  {
+    title: 'menuHeadings',
+    fields: [
+      { path: 'menuHeadings.enabled', kind: 'bool' },
+      { path: 'menuHeadings.color', kind: 'color' },
+      { path: 'menuHeadings.fontWeight', kind: 'fontWeight' },
+      { path: 'menuHeadings.hoverColor', kind: 'color' }
+    ]
+  },
+  {
+    title: 'indicator',
+    fields: [
+      { path: 'indicator.style', kind: 'choice', choices: ['none', 'underline', 'bar', 'pill', 'icon'] },
+      { path: 'indicator.color', kind: 'color' },
+      { path: 'indicator.pillBackground', kind: 'color' },
+      { path: 'indicator.icon', kind: 'text' }
+    ]
+  },
+  {
+    title: 'linkStates',
+    fields: [
+      { path: 'linkStates.hoverColor', kind: 'optionalColor' },
+      { path: 'linkStates.focusColor', kind: 'optionalColor' },
+      { path: 'linkStates.visitedColor', kind: 'optionalColor' }
+    ]
+  },
+  {
+    title: 'accessibility',
+    fields: [
+      { path: 'accessibility.ariaCurrent', kind: 'bool' },
+      { path: 'accessibility.currentSuffix', kind: 'bool' },
+      { path: 'accessibility.announceNavigation', kind: 'bool' }
+    ]
+  },
+  {
+    title: 'activePath',
+    fields: [
+      { path: 'activePath.enabled', kind: 'bool' },
+      { path: 'activePath.currentColor', kind: 'color' },
+      { path: 'activePath.currentFontWeight', kind: 'fontWeight' },
+      { path: 'activePath.ancestorColor', kind: 'color' },
+      { path: 'activePath.ancestorFontWeight', kind: 'fontWeight' }
+    ]
+  },
+  {
+    title: 'hubSwitcher',
+    fields: [
+      { path: 'hubSwitcher.enabled', kind: 'bool' },
+      { path: 'hubSwitcher.label', kind: 'optionalText' }
+    ]
+  },
+  {
+    title: 'breadcrumb',
+    fields: [
+      { path: 'breadcrumb.enabled', kind: 'bool' },
+      { path: 'breadcrumb.collapseBelowPx', kind: 'number' }
+    ]
+  },
+  {
+    title: 'mobile',
+    fields: [
+      { path: 'mobile.enabled', kind: 'bool' },
+      { path: 'mobile.collapseBelowPx', kind: 'number' }
+    ]
+  },
+  {
+    title: 'audiences',
+    fields: [
+      { path: 'audiences.enabled', kind: 'bool' },
+      { path: 'audiences.hide', kind: 'json' }
+    ]
+  },
+  {
+    title: 'telemetry',
+    fields: [
+      { path: 'telemetry.enabled', kind: 'bool' },
+      { path: 'telemetry.sink', kind: 'choice', choices: ['console', 'list', 'http'] },
+      { path: 'telemetry.listTitle', kind: 'text' },
+      { path: 'telemetry.listSiteUrl', kind: 'optionalText' },
+      { path: 'telemetry.endpoint', kind: 'optionalText' },
+      { path: 'telemetry.sampleRate', kind: 'number' },
+      { path: 'telemetry.batchSize', kind: 'number' },
+      { path: 'telemetry.flushIntervalMs', kind: 'number' },
+      { path: 'telemetry.honorDoNotTrack', kind: 'bool' },
+      { path: 'telemetry.optOutUsers', kind: 'list' }
+    ]
+  },
+  {
+    title: strings.EditorAdvancedSection,
+    fields: [
+      { path: 'activation', kind: 'json' },
+      { path: 'selectors', kind: 'json' },
+      { path: 'styleRules', kind: 'json' },
+      { path: 'profiles', kind: 'json' }
+    ]
+  }
+];
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  left: '12px',
+  top: '60px',
+  bottom: '12px',
+  width: '420px',
+  maxWidth: 'calc(100vw - 24px)',
+  display: 'flex',
+  flexDirection: 'column',
+  backgroundColor: '#ffffff',
+  border: '1px solid #8a8886',
+  boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
+  font: '13px/1.4 "Segoe UI", sans-serif',
+  color: '#201f1e',
+  zIndex: 100000
+};
+
+const headerStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  padding: '8px 12px',
+  backgroundColor: '#323130',
+  color: '#ffffff'
+};
+
+const closeStyle: React.CSSProperties = {
+  background: 'none',
+  border: '1px solid #ffffff',
+  color: '#ffffff',
+  cursor: 'pointer',
+  font: 'inherit',
+  padding: '0 6px'
+};
+
+const bodyStyle: React.CSSProperties = {
+  flex: 1,
+  overflow: 'auto',
+  padding: '0 12px'
+};
+
+const sectionStyle: React.CSSProperties = {
+  border: 'none',
+  borderBottom: '1px solid #edebe9',
+  margin: 0,
+  padding: '8px 0'
+};
+
+const legendStyle: React.CSSProperties = {
+  fontWeight: 600,
+  padding: 0
+};
+
+const fieldStyle: React.CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  margin: '4px 0'
+};
+
+const labelStyle: React.CSSProperties = {
+  flex: '0 0 45%',
+  font: '12px Consolas, Menlo, monospace',
+  wordBreak: 'break-all'
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  font: 'inherit'
+};
+
+const textareaStyle: React.CSSProperties = {
+  flex: '0 0 100%',
+  minHeight: '80px',
+  font: '12px Consolas, Menlo, monospace'
+};
+
+const swatchStyle: React.CSSProperties = {
+  width: '32px',
+  height: '24px',
+  marginLeft: '4px',
+  padding: 0
+};
+
+const problemStyle: React.CSSProperties = {
+  flex: '0 0 100%',
+  color: '#a4262c',
+  fontSize: '12px'
+};
+
+const noteStyle: React.CSSProperties = {
+  flex: '0 0 100%',
+  color: '#605e5c',
+  fontSize: '12px'
+};
+
+const footerStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderTop: '1px solid #edebe9'
+};
+
+const buttonStyle: React.CSSProperties = {
+  marginRight: '8px',
+  font: 'inherit'
+};
+
+/** Value at a dotted path */
+function getPath(json: IJsonObject, path: string): unknown {
+  return path.split('.').reduce((value: unknown, key: string) => (isJsonObject(value) ? value[key] : undefined), json);
+}
+
+/** Copy of `json` with the value at a dotted path replaced; undefined removes it */
+function setPath(json: IJsonObject, path: string, value: unknown): IJsonObject {
+  const dot = path.indexOf('.');
+  const copy: IJsonObject = { ...json };
+  if (dot === -1) {
+    if (value === undefined) delete copy[path];
+    else copy[path] = value;
+    return copy;
+  }
+
+  const key = path.substr(0, dot);
+  copy[key] = setPath(isJsonObject(json[key]) ? json[key] as IJsonObject : {}, path.substr(dot + 1), value);
+  return copy;
+}
+
+/** Warnings about a field's value or anything inside it */
+function warningsFor(warnings: IConfigWarning[], path: string): IConfigWarning[] {
+  return warnings.filter((w: IConfigWarning) => w.key === path || w.key.indexOf(`${path}.`) === 0 || w.key.indexOf(`${path}[`) === 0);
+}
+
+/** Layer above the config files that sets the field's value or anything inside it */
+function overriddenBy(overrides: { [keyPath: string]: ConfigLayer }, path: string): ConfigLayer | undefined {
+  const key = Object.keys(overrides).filter((k: string) => k === path || k.indexOf(`${path}.`) === 0)[0];
+  return key ? overrides[key] : undefined;
+}
+
+/** Text shown for a value edited as JSON */
+function jsonText(value: unknown): string {
+  return JSON.stringify(value === undefined ? null : value, null, 2);
+}
+
+/**
+ * Config editor for site owners, opened with ?hubnavedit=1. Edits are previewed on
+ * the page as they are made and validated like a config file; saving is blocked
+ * while anything would be ignored.
+ */
+export const ConfigEditor: React.FC<ConfigEditorProps> = ({ config, themeSlots, fileUrl, overrides, profile, onPreview, onSave, onClose }) => {
+  const initial = React.useMemo(() => JSON.parse(JSON.stringify(config)) as IJsonObject, [config]);
+  const [draft, setDraft] = React.useState<IJsonObject>(initial);
+  // Raw text of JSON fields, kept while it does not parse
+  const [jsonTexts, setJsonTexts] = React.useState<{ [path: string]: string }>({});
+  const [jsonErrors, setJsonErrors] = React.useState<{ [path: string]: string }>({});
+  const [saveState, setSaveState] = React.useState<SaveState>('idle');
+  const [saveError, setSaveError] = React.useState<string>('');
+
+  const validation = React.useMemo(() => validateNavConfig(draft), [draft]);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(initial);
+  const hasJsonErrors = Object.keys(jsonErrors).length > 0;
+  const listed = SECTIONS.reduce((paths: string[], s: IEditorSection) => paths.concat(s.fields.map((f: IEditorField) => f.path)), []);
+  const unlisted = validation.warnings.filter((w: IConfigWarning) => !listed.some((path: string) => warningsFor([w], path).length > 0));
+
+  React.useEffect(() => {
+    const timer = window.setTimeout(() => onPreview(validation.config), PREVIEW_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [validation]);
+
+  const update = (path: string, value: unknown): void => {
+    setDraft(setPath(draft, path, value));
+    if (saveState !== 'saving') setSaveState('idle');
+  };
+
+  const updateJson = (path: string, value: string): void => {
+    setJsonTexts({ ...jsonTexts, [path]: value });
+    const errors = { ...jsonErrors };
+    delete errors[path];
+    try {
+      update(path, JSON.parse(value));
+    } catch (error) {
+      errors[path] = (error as Error).message;
+    }
+    setJsonErrors(errors);
+  };
+
+  const save = (): void => {
+    setSaveState('saving');
+    onSave(validation.config).then(
+      () => setSaveState('saved'),
+      (error: Error) => {
+        setSaveError(error.message);
+        setSaveState(isConfigConflict(error) ? 'conflict' : 'error');
+      }
+    );
+  };
+
+  const reset = (): void => {
+    setDraft(initial);
+    setJsonTexts({});
+    setJsonErrors({});
+    setSaveState('idle');
+  };
+
+  const renderInput = (field: IEditorField, disabled: boolean): JSX.Element => {
+    const id = `hub-nav-edit-${field.path}`;
+    const value = getPath(draft, field.path);
+
+    switch (field.kind) {
+      case 'bool':
+        return <input id={id} type="checkbox" disabled={disabled} checked={value === true} onChange={e => update(field.path, e.target.checked)} />;
+      case 'choice':
+        return (
+          <select id={id} style={inputStyle} disabled={disabled} value={`${value}`} onChange={e => update(field.path, e.target.value)}>
+            {(field.choices || []).map((choice: string) => <option key={choice} value={choice}>{choice}</option>)}
+          </select>
+        );
+      case 'fontWeight':
+      case 'number':
+        return (
+          <input id={id} type="number" style={inputStyle} disabled={disabled} value={typeof value === 'number' ? value : ''}
+            step={field.kind === 'fontWeight' ? 100 : 'any'} min={field.kind === 'fontWeight' ? 100 : undefined} max={field.kind === 'fontWeight' ? 900 : undefined}
+            onChange={e => update(field.path, e.target.value === '' ? undefined : Number(e.target.value))} />
+        );
+      case 'color':
+      case 'optionalColor': {
+        const color = typeof value === 'string' ? value : '';
+        const hex = color ? colorToHex(resolveColor(color, themeSlots)) : null;
+        return (
+          <>
+            <input id={id} type="text" style={inputStyle} disabled={disabled} value={color} placeholder={field.kind === 'optionalColor' ? strings.EditorNotSet : undefined}
+              onChange={e => update(field.path, e.target.value === '' && field.kind === 'optionalColor' ? undefined : e.target.value)} />
+            <input type="color" style={swatchStyle} disabled={disabled} value={hex || '#000000'} aria-label={Text.format(strings.EditorPickColor, field.path)}
+              onChange={e => update(field.path, e.target.value)} />
+          </>
+        );
+      }
+      case 'list':
+        return (
+          <input id={id} type="text" style={inputStyle} disabled={disabled} value={Array.isArray(value) ? value.join(', ') : ''}
+            onChange={e => update(field.path, e.target.value.split(',').map((item: string) => item.trim()).filter((item: string) => !!item))} />
+        );
+      case 'json':
+        return (
+          <textarea id={id} style={textareaStyle} spellCheck={false} disabled={disabled}
+            value={jsonTexts[field.path] !== undefined ? jsonTexts[field.path] : jsonText(value)}
+            onChange={e => updateJson(field.path, e.target.value)} />
+        );
+      default:
+        return (
+          <input id={id} type="text" style={inputStyle} disabled={disabled} value={typeof value === 'string' ? value : ''}
+            placeholder={field.kind === 'optionalText' ? strings.EditorNotSet : undefined}
+            onChange={e => update(field.path, e.target.value === '' && field.kind === 'optionalText' ? undefined : e.target.value)} />
+        );
+    }
+  };
+
+  // Saving a value the profile or properties set would not change the page, so those are read-only
+  const renderField = (field: IEditorField): JSX.Element => {
+    const layer = overriddenBy(overrides, field.path);
+    return (
+      <div key={field.path} style={fieldStyle}>
+        <label htmlFor={`hub-nav-edit-${field.path}`} style={labelStyle}>{field.path}</label>
+        {renderInput(field, !!layer)}
+        {layer && <div style={noteStyle}>{layer === 'profile' ? Text.format(strings.EditorSetByProfile, profile) : strings.EditorSetByProperties}</div>}
+        {jsonErrors[field.path] && <div style={problemStyle}>{Text.format(strings.EditorInvalidJson, jsonErrors[field.path])}</div>}
+        {warningsFor(validation.warnings, field.path).map((w: IConfigWarning, i: number) => (
+          <div key={i} style={problemStyle}>{w.key}: {w.reason}</div>
+        ))}
+      </div>
+    );
+  };
+
+  const status = {
+    idle: '',
+    saving: strings.EditorSaving,
+    saved: strings.EditorSaved,
+    conflict: strings.EditorConflict,
+    error: Text.format(strings.EditorSaveFailed, saveError)
+  }[saveState];
+
+  return (
+    <div style={panelStyle} role="dialog" aria-label={strings.EditorAriaLabel} data-hub-nav-editor="true">
+      <div style={headerStyle}>
+        <span>{strings.EditorTitle}</span>
+        <button type="button" style={closeStyle} onClick={onClose} aria-label={strings.EditorClose}>×</button>
+      </div>
+
+      <div style={bodyStyle}>
+        {unlisted.map((w: IConfigWarning, i: number) => <div key={i} style={problemStyle}>{w.key}: {w.reason}</div>)}
+        {SECTIONS.map((section: IEditorSection) => (
+          <fieldset key={section.title} style={sectionStyle}>
+            <legend style={legendStyle}>{section.title}</legend>
+            {section.fields.map(renderField)}
+          </fieldset>
+        ))}
+      </div>
+
+      <div style={footerStyle}>
+        <div title={fileUrl}>{Text.format(strings.EditorSavesTo, fileUrl.replace(/^https:\/\/[^/]+/, ''))}</div>
+        <button type="button" style={buttonStyle} onClick={save}
+          disabled={!dirty || saveState === 'saving' || hasJsonErrors || validation.warnings.length > 0}>
+          {strings.EditorSave}
+        </button>
+        <button type="button" style={buttonStyle} onClick={reset} disabled={!dirty || saveState === 'saving'}>{strings.EditorReset}</button>
+        <span role="status" style={saveState === 'conflict' || saveState === 'error' ? problemStyle : undefined}>{status}</span>
+      </div>
+    </div>
+  );
+};
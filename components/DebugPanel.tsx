@@ -0,0 +1,170 @@
+// components/DebugPanel.tsx
+import * as React from 'react';
+import { Text } from '@microsoft/sp-core-library';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
+import type { IConfigLayerInfo } from '../helpers/ConfigResolver';
+import type { IConfigWarning } from '../helpers/ConfigValidator';
+import type { ILinkTrace, IPassTiming, IDebugSnapshot } from '../helpers/DebugTrace';
+import type { ISelectorMatchCount } from '../helpers/SelectorRegistry';
+
+interface DebugPanelProps {
+  snapshot: IDebugSnapshot;
+  onClose: () => void;
+}
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  right: '12px',
+  bottom: '12px',
+  width: '520px',
+  maxWidth: 'calc(100vw - 24px)',
+  maxHeight: '60vh',
+  overflow: 'auto',
+  backgroundColor: '#ffffff',
+  border: '1px solid #8a8886',
+  boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
+  font: '12px/1.4 Consolas, Menlo, monospace',
+  color: '#201f1e',
+  zIndex: 100000
+};
+
+const headerStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  padding: '6px 10px',
+  backgroundColor: '#323130',
+  color: '#ffffff',
+  position: 'sticky',
+  top: 0
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: 'none',
+  border: '1px solid #ffffff',
+  color: '#ffffff',
+  cursor: 'pointer',
+  font: 'inherit',
+  marginLeft: '6px',
+  padding: '0 6px'
+};
+
+const sectionStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  borderBottom: '1px solid #edebe9'
+};
+
+const tableStyle: React.CSSProperties = {
+  borderCollapse: 'collapse',
+  width: '100%'
+};
+
+const cellStyle: React.CSSProperties = {
+  borderTop: '1px solid #edebe9',
+  padding: '2px 4px',
+  verticalAlign: 'top',
+  wordBreak: 'break-all'
+};
+
+const warningStyle: React.CSSProperties = {
+  color: '#a4262c'
+};
+
+const Section: React.FC<{ title: string }> = ({ title, children }) => (
+  <div style={sectionStyle}>
+    <strong>{title}</strong>
+    <div>{children}</div>
+  </div>
+);
+
+/** Floating diagnostics panel shown with ?hubnavdebug=1 */
+export const DebugPanel: React.FC<DebugPanelProps> = ({ snapshot, onClose }) => {
+  const [collapsed, setCollapsed] = React.useState<boolean>(false);
+  const unstyled = snapshot.links.filter((l: ILinkTrace) => !l.className).length;
+
+  return (
+    <div style={panelStyle} role="region" aria-label={strings.DebugPanelAriaLabel} data-hub-nav-debug="true">
+      <div style={headerStyle}>
+        <span>{strings.DebugPanelTitle}</span>
+        <span>
+          <button type="button" style={buttonStyle} onClick={() => setCollapsed(!collapsed)}>{collapsed ? strings.DebugExpand : strings.DebugCollapse}</button>
+          <button type="button" style={buttonStyle} onClick={onClose} aria-label={strings.DebugClose}>×</button>
+        </span>
+      </div>
+
+      {!collapsed && (
+        <>
+          <Section title={strings.DebugConfigSection}>
+            <div>
+              {Text.format(strings.DebugConfigSource, snapshot.configSource)}
+              {snapshot.configLoadMs !== null ? Text.format(strings.DebugConfigLoadTime, snapshot.configLoadMs) : ''}
+            </div>
+            {snapshot.layers.length > 0
+              ? snapshot.layers.map((l: IConfigLayerInfo) => <div key={`${l.layer}${l.location}`}>{l.layer}: {l.location}</div>)
+              : <div>{strings.DebugNoConfig}</div>}
+            <div>{Text.format(strings.DebugProfile, snapshot.profile || strings.DebugNoProfile)}</div>
+            <div>matchMode: {snapshot.matchMode}, renderMode: {snapshot.renderMode}</div>
+            <div>{Text.format(strings.DebugActivation, snapshot.activation)}</div>
+          </Section>
+
+          <Section title={Text.format(strings.DebugWarningsSection, snapshot.warnings.length)}>
+            {snapshot.warnings.map((w: IConfigWarning, i: number) => (
+              <div key={i} style={warningStyle}>{w.key}: {w.reason}</div>
+            ))}
+          </Section>
+
+          <Section title={strings.DebugCurrentSiteSection}>
+            <div>{Text.format(strings.DebugSiteKey, snapshot.currentSiteKey)}</div>
+            <div>{Text.format(strings.DebugWebKey, snapshot.currentWebKey)}</div>
+          </Section>
+
+          <Section title={strings.DebugPassesSection}>
+            <table style={tableStyle}>
+              <tbody>
+                {snapshot.passes.map((p: IPassTiming) => (
+                  <tr key={p.pass}>
+                    <td style={cellStyle}>#{p.pass}</td>
+                    <td style={cellStyle}>{p.scope}</td>
+                    <td style={cellStyle}>{Text.format(strings.DebugPassLinks, p.links)}</td>
+                    <td style={cellStyle}>{p.ms} ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+
+          {snapshot.selectorMatches.length > 0 && (
+            <Section title={strings.DebugSelectorSection}>
+              <table style={tableStyle}>
+                <tbody>
+                  {snapshot.selectorMatches.map((m: ISelectorMatchCount) => (
+                    <tr key={`${m.region}${m.selector}`} style={m.count === 0 ? warningStyle : undefined}>
+                      <td style={cellStyle}>{m.region}</td>
+                      <td style={cellStyle}>{m.selector}</td>
+                      <td style={cellStyle}>{m.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+          )}
+
+          <Section title={Text.format(strings.DebugLinksSection, snapshot.links.length, unstyled)}>
+            <table style={tableStyle}>
+              <tbody>
+                {snapshot.links.map((l: ILinkTrace, i: number) => (
+                  <tr key={i}>
+                    <td style={cellStyle} title={l.href}>{l.text || l.href}</td>
+                    <td style={cellStyle}>{l.region ? `${l.region}: ${l.selector}` : ''}</td>
+                    <td style={cellStyle}>{l.className || strings.DebugNoClass}</td>
+                    <td style={cellStyle}>{l.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
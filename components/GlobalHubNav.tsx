@@ -0,0 +1,385 @@
+// components/GlobalHubNav.tsx
+import * as React from 'react';
+import { Text } from '@microsoft/sp-core-library';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
+import type { INavNode } from '../helpers/NavApi';
+import type { AriaCurrentValue } from '../helpers/AriaCurrent';
+import { useNarrowViewport } from './useNarrowViewport';
+
+/** How one navigation node is shown */
+export interface INavLinkState {
+  /** CSS classes, e.g. "hub-nav-current-site" (colours come from the injected config styles) */
+  className: string;
+  /** "page"/"location" for the current link, "location" for items above it */
+  ariaCurrent?: AriaCurrentValue;
+  /** Visually hidden text after the link ("" for none) */
+  suffix: string;
+}
+
+interface GlobalHubNavProps {
+  nodes: INavNode[];
+  getLinkState: (node: INavNode) => INavLinkState;
+  /** Below this viewport width (px) the bar collapses into a menu button and slide-in panel (0 = never) */
+  collapseBelowPx: number;
+}
+
+interface MobileNavPanelProps {
+  nodes: INavNode[];
+  getLinkState: (node: INavNode) => INavLinkState;
+  onClose: () => void;
+}
+
+// Container styles
+const navContainerStyle: React.CSSProperties = {
+  backgroundColor: '#f5f5f5',
+  padding: '10px 20px',
+  borderBottom: '1px solid #ddd'
+};
+
+const navListStyle: React.CSSProperties = {
+  display: 'flex',
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+  gap: '20px',
+  flexWrap: 'wrap'
+};
+
+const navItemStyle: React.CSSProperties = {
+  position: 'relative'
+};
+
+// Links take colour and weight from the hub-nav-current-site / hub-nav-other-site rules
+const linkStyle: React.CSSProperties = {
+  textDecoration: 'none',
+  padding: '5px 10px',
+  display: 'inline-block'
+};
+
+// Mega menu dropdown styles
+const megaMenuStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '100%',
+  left: 0,
+  backgroundColor: '#ffffff',
+  border: '1px solid #ddd',
+  boxShadow: '0 4px 8px rgba(0,0,0,0.1)',
+  padding: '10px',
+  minWidth: '200px',
+  zIndex: 1000,
+  display: 'none'
+};
+
+const megaMenuListStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0
+};
+
+// Second-level nodes with children become mega menu columns
+const megaMenuGridStyle: React.CSSProperties = {
+  ...megaMenuListStyle,
+  display: 'grid',
+  gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
+  gap: '10px 20px',
+  minWidth: '400px'
+};
+
+const megaMenuHeadingStyle: React.CSSProperties = {
+  ...linkStyle,
+  fontWeight: 600
+};
+
+const megaMenuItemStyle: React.CSSProperties = {
+  padding: '5px 0'
+};
+
+// Collapsed (mobile) mode: touch targets are at least 44px high
+const TOUCH_TARGET_PX = 44;
+
+const menuButtonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  minHeight: `${TOUCH_TARGET_PX}px`,
+  padding: '0 10px',
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  font: 'inherit',
+  color: 'inherit'
+};
+
+const menuIconStyle: React.CSSProperties = {
+  fontSize: '20px',
+  marginRight: '8px'
+};
+
+const backdropStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  right: 0,
+  bottom: 0,
+  left: 0,
+  backgroundColor: 'rgba(0,0,0,0.4)',
+  zIndex: 1000
+};
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  bottom: 0,
+  left: 0,
+  width: '320px',
+  maxWidth: '85vw',
+  overflowY: 'auto',
+  backgroundColor: '#ffffff',
+  boxShadow: '2px 0 8px rgba(0,0,0,0.2)',
+  zIndex: 1001,
+  transition: 'transform 0.2s ease-out'
+};
+
+const panelHeaderStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  padding: '0 10px',
+  borderBottom: '1px solid #ddd'
+};
+
+const panelItemStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  borderBottom: '1px solid #eee'
+};
+
+const panelLinkStyle: React.CSSProperties = {
+  flex: 1,
+  display: 'flex',
+  alignItems: 'center',
+  minHeight: `${TOUCH_TARGET_PX}px`,
+  textDecoration: 'none'
+};
+
+const expandButtonStyle: React.CSSProperties = {
+  ...menuButtonStyle,
+  justifyContent: 'center',
+  minWidth: `${TOUCH_TARGET_PX}px`
+};
+
+/** Indentation of a nav level in the panel */
+const panelIndent = (depth: number): React.CSSProperties => ({ paddingLeft: `${10 + depth * 16}px` });
+
+/** A top-level node whose children have children of their own is shown as a multi-column mega menu */
+const isMegaMenu = (node: INavNode): boolean =>
+  node.Children.some(c => c.Children.length > 0);
+
+// Label-only nodes (headings without a URL) render as text; depth is 0 for top-level nodes
+const renderLink = (
+  node: INavNode,
+  depth: number,
+  style: React.CSSProperties,
+  getLinkState: (node: INavNode) => INavLinkState,
+  suffix?: string,
+  isHeading?: boolean
+): JSX.Element => {
+  const state = getLinkState(node);
+  const className = `${state.className} ${isHeading ? 'hub-nav-menu-heading' : ''}`.trim();
+  const hiddenSuffix = state.suffix ? <span className="hub-nav-sr-only">{state.suffix}</span> : null;
+  return node.Url
+    ? <a href={node.Url} className={className} style={style} aria-current={state.ariaCurrent} data-hub-nav-depth={depth}
+      data-hub-nav-title={node.Title}>{node.Title}{suffix}{hiddenSuffix}</a>
+    : <span className={className} style={style} aria-current={state.ariaCurrent} data-hub-nav-title={node.Title}>{node.Title}{suffix}</span>;
+};
+
+/** True when the node or a node below it is the current location */
+const containsCurrent = (node: INavNode, getLinkState: (node: INavNode) => INavLinkState): boolean =>
+  !!getLinkState(node).ariaCurrent || node.Children.some(c => containsCurrent(c, getLinkState));
+
+/** Keep Tab and Shift+Tab cycling through the links and buttons of a modal element */
+const trapFocus = (e: KeyboardEvent, container: HTMLElement): void => {
+  const focusable = container.querySelectorAll<HTMLElement>('a[href], button');
+  if (focusable.length === 0) return;
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const outside = !container.contains(document.activeElement);
+
+  if (e.shiftKey && (document.activeElement === first || outside)) {
+    e.preventDefault();
+    last.focus();
+  } else if (!e.shiftKey && (document.activeElement === last || outside)) {
+    e.preventDefault();
+    first.focus();
+  }
+};
+
+/**
+ * Slide-in panel of the collapsed navigation. Every level with children is an
+ * expandable section; sections leading to the current location start expanded.
+ */
+const MobileNavPanel: React.FC<MobileNavPanelProps> = ({ nodes, getLinkState, onClose }) => {
+  const [expanded, setExpanded] = React.useState<string[]>(() => {
+    const ids: string[] = [];
+    const collect = (list: INavNode[]): void => list.forEach(n => {
+      if (n.Children.length > 0 && containsCurrent(n, getLinkState)) {
+        ids.push(n.Id);
+        collect(n.Children);
+      }
+    });
+    collect(nodes);
+    return ids;
+  });
+  // Slide in after the first paint so the transition runs
+  const [shown, setShown] = React.useState(false);
+  const closeRef = React.useRef<HTMLButtonElement>(null);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const frame = window.requestAnimationFrame(() => setShown(true));
+    if (closeRef.current) closeRef.current.focus();
+    const onKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'Tab' && panelRef.current) trapFocus(e, panelRef.current);
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, []);
+
+  const toggle = (id: string): void =>
+    setExpanded(expanded.indexOf(id) > -1 ? expanded.filter(e => e !== id) : expanded.concat(id));
+
+  const renderItems = (list: INavNode[], depth: number): JSX.Element => (
+    <ul style={megaMenuListStyle}>
+      {list.map(n => {
+        const hasChildren = n.Children.length > 0;
+        const isOpen = expanded.indexOf(n.Id) > -1;
+        return (
+          <li key={n.Id}>
+            <div style={{ ...panelItemStyle, ...panelIndent(depth) }}>
+              {renderLink(n, depth, panelLinkStyle, getLinkState, '', depth === 0 ? !n.Url : hasChildren)}
+              {hasChildren && (
+                <button type="button" style={expandButtonStyle} aria-expanded={isOpen}
+                  aria-label={Text.format(strings.MobileExpandSection, n.Title)} onClick={() => toggle(n.Id)}>
+                  {isOpen ? '▲' : '▼'}
+                </button>
+              )}
+            </div>
+            {hasChildren && isOpen && renderItems(n.Children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  // Following a link closes the panel (in-page navigation keeps the component mounted)
+  const onPanelClick = (e: React.MouseEvent<HTMLDivElement>): void => {
+    if ((e.target as Element).closest('a')) onClose();
+  };
+
+  return (
+    <>
+      <div style={backdropStyle} onClick={onClose} aria-hidden="true" />
+      <div id="hub-nav-mobile-panel" ref={panelRef} role="dialog" aria-modal="true" aria-label={strings.HubNavigationLabel} onClick={onPanelClick}
+        style={{ ...panelStyle, transform: shown ? 'none' : 'translateX(-100%)' }}>
+        <div style={panelHeaderStyle}>
+          <strong>{strings.HubNavigationLabel}</strong>
+          <button type="button" ref={closeRef} style={expandButtonStyle} aria-label={strings.MobileMenuClose} onClick={onClose}>×</button>
+        </div>
+        {renderItems(nodes, 0)}
+      </div>
+    </>
+  );
+};
+
+export const GlobalHubNavigation: React.FC<GlobalHubNavProps> = ({ nodes, getLinkState, collapseBelowPx }) => {
+  const [openMenu, setOpenMenu] = React.useState<string | null>(null);
+  const [panelOpen, setPanelOpen] = React.useState(false);
+  const narrow = useNarrowViewport(collapseBelowPx);
+  const menuButtonRef = React.useRef<HTMLButtonElement>(null);
+  // Menu closed with Escape; focus returning to its item does not reopen it
+  const dismissedRef = React.useRef<string | null>(null);
+
+  // The panel belongs to the collapsed mode only
+  React.useEffect(() => {
+    if (!narrow) setPanelOpen(false);
+  }, [narrow]);
+
+  const closePanel = (): void => {
+    setPanelOpen(false);
+    if (menuButtonRef.current) menuButtonRef.current.focus();
+  };
+
+  if (narrow) {
+    return (
+      <nav style={{ ...navContainerStyle, padding: '0 10px' }} aria-label={strings.HubNavigationLabel} data-hub-nav-custom="true">
+        <button type="button" ref={menuButtonRef} style={menuButtonStyle} aria-expanded={panelOpen} aria-controls="hub-nav-mobile-panel"
+          aria-label={strings.MobileMenuOpen} onClick={() => setPanelOpen(true)}>
+          <span style={menuIconStyle} aria-hidden="true">☰</span>
+          {strings.MobileMenuLabel}
+        </button>
+        {panelOpen && <MobileNavPanel nodes={nodes} getLinkState={getLinkState} onClose={closePanel} />}
+      </nav>
+    );
+  }
+
+  return (
+    <nav style={navContainerStyle} aria-label={strings.HubNavigationLabel} data-hub-nav-custom="true">
+      <ul style={navListStyle}>
+        {nodes.map(n => {
+          const hasChildren = n.Children.length > 0;
+          const isOpen = openMenu === n.Id;
+
+          return (
+            <li
+              key={n.Id}
+              style={navItemStyle}
+              onMouseEnter={() => hasChildren && setOpenMenu(n.Id)}
+              onMouseLeave={() => setOpenMenu(null)}
+              onFocus={() => hasChildren && dismissedRef.current !== n.Id && setOpenMenu(n.Id)}
+              onBlur={(e: React.FocusEvent<HTMLLIElement>) => {
+                // Close once focus leaves the item and its submenu
+                if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+                if (dismissedRef.current === n.Id) dismissedRef.current = null;
+                if (isOpen) setOpenMenu(null);
+              }}
+              onKeyDown={(e: React.KeyboardEvent<HTMLLIElement>) => {
+                if (e.key !== 'Escape' || !isOpen) return;
+                dismissedRef.current = n.Id;
+                setOpenMenu(null);
+                const top = e.currentTarget.firstElementChild;
+                if (top instanceof HTMLAnchorElement) top.focus();
+              }}
+            >
+              {renderLink(n, 0, linkStyle, getLinkState, hasChildren ? ' ▼' : '', !n.Url)}
+
+              {hasChildren && (
+                <div style={{ ...megaMenuStyle, display: isOpen ? 'block' : 'none' }}>
+                  <ul style={isMegaMenu(n) ? megaMenuGridStyle : megaMenuListStyle}>
+                    {n.Children.map(c => (
+                      <li key={c.Id} style={megaMenuItemStyle}>
+                        {c.Children.length > 0
+                          ? renderLink(c, 1, megaMenuHeadingStyle, getLinkState, '', true)
+                          : renderLink(c, 1, linkStyle, getLinkState)}
+                        {c.Children.length > 0 && (
+                          <ul style={megaMenuListStyle}>
+                            {c.Children.map(g => (
+                              <li key={g.Id} style={megaMenuItemStyle}>
+                                {renderLink(g, 2, linkStyle, getLinkState)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+};
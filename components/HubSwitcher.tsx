@@ -0,0 +1,119 @@
+// components/HubSwitcher.tsx
+import * as React from 'react';
+import { Text } from '@microsoft/sp-core-library';
+import * as strings from 'HubNavigationApplicationCustomizerStrings';
+import type { IHubFamily, IHubSite } from '../helpers/HubApi';
+import type { INavLinkState } from './GlobalHubNav';
+
+interface HubSwitcherProps {
+  family: IHubFamily;
+  /** Text before the current hub's name ("" for none) */
+  label: string;
+  /** State of a hub link; the current hub is "current" */
+  getLinkState: (isCurrent: boolean) => INavLinkState;
+}
+
+const switcherStyle: React.CSSProperties = {
+  position: 'relative',
+  backgroundColor: '#f5f5f5',
+  padding: '6px 20px',
+  borderBottom: '1px solid #ddd',
+  fontSize: '13px'
+};
+
+const toggleStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: '4px 0',
+  cursor: 'pointer',
+  font: 'inherit',
+  color: 'inherit'
+};
+
+const labelStyle: React.CSSProperties = {
+  marginRight: '6px'
+};
+
+const dropdownStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '100%',
+  left: '20px',
+  backgroundColor: '#ffffff',
+  border: '1px solid #ddd',
+  boxShadow: '0 4px 8px rgba(0,0,0,0.1)',
+  padding: '10px',
+  minWidth: '240px',
+  zIndex: 1001
+};
+
+const groupHeadingStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#605e5c',
+  margin: '4px 0'
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: '0 0 6px',
+  padding: 0
+};
+
+// Links take colour and weight from the hub-nav-current-site / hub-nav-other-site rules
+const linkStyle: React.CSSProperties = {
+  textDecoration: 'none',
+  padding: '5px 10px',
+  display: 'block'
+};
+
+/** The current hub among its siblings, by title */
+const hubsUnderParent = (family: IHubFamily): IHubSite[] =>
+  family.siblings.concat(family.current).sort((a, b) => a.title.localeCompare(b.title));
+
+export const HubSwitcher: React.FC<HubSwitcherProps> = ({ family, label, getLinkState }) => {
+  const [open, setOpen] = React.useState(false);
+  const listId = `hub-switcher-${family.current.id}`;
+
+  const renderHub = (hub: IHubSite): JSX.Element => {
+    const state = getLinkState(hub.id === family.current.id);
+    const hiddenSuffix = state.suffix ? <span className="hub-nav-sr-only">{state.suffix}</span> : null;
+    return (
+      <li key={hub.id}>
+        <a href={hub.url} className={state.className} style={linkStyle} aria-current={state.ariaCurrent} data-hub-nav-depth={0}
+          data-hub-nav-title={hub.title}>
+          {hub.title}{hiddenSuffix}
+        </a>
+      </li>
+    );
+  };
+
+  // Close when focus leaves the switcher or on Escape
+  const onBlur = (e: React.FocusEvent<HTMLElement>): void => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOpen(false);
+  };
+  const onKeyDown = (e: React.KeyboardEvent<HTMLElement>): void => {
+    if (e.key === 'Escape') setOpen(false);
+  };
+
+  return (
+    <nav style={switcherStyle} aria-label={strings.HubSwitcherAriaLabel} data-hub-nav-switcher="true" onBlur={onBlur} onKeyDown={onKeyDown}>
+      <button type="button" style={toggleStyle} aria-expanded={open} aria-controls={listId} onClick={() => setOpen(!open)}>
+        {label && <span style={labelStyle}>{label}</span>}
+        <strong>{family.current.title}</strong> ▼
+      </button>
+
+      {open && (
+        <div id={listId} style={dropdownStyle}>
+          {family.parent && (
+            <>
+              <div style={groupHeadingStyle}>{strings.ParentHubHeading}</div>
+              <ul style={listStyle}>{renderHub(family.parent)}</ul>
+              <div style={groupHeadingStyle}>{Text.format(strings.HubsUnderParentHeading, family.parent.title)}</div>
+            </>
+          )}
+          <ul style={listStyle}>{hubsUnderParent(family).map(renderHub)}</ul>
+        </div>
+      )}
+    </nav>
+  );
+};
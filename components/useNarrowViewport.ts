@@ -0,0 +1,18 @@
+// components/useNarrowViewport.ts
+import * as React from 'react';
+
+/** True while the viewport is narrower than `widthPx`, following resizes (never for 0) */
+export const useNarrowViewport = (widthPx: number): boolean => {
+  const query = `(max-width: ${widthPx - 1}px)`;
+  const [narrow, setNarrow] = React.useState(() => window.matchMedia(query).matches);
+
+  React.useEffect(() => {
+    const media = window.matchMedia(query);
+    const onChange = (): void => setNarrow(media.matches);
+    onChange();
+    media.addListener(onChange);
+    return () => media.removeListener(onChange);
+  }, [query]);
+
+  return narrow;
+};
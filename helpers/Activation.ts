@@ -0,0 +1,57 @@
+// helpers/Activation.ts
+import { IActivationConfig, IActivationRule } from '../INavConfig';
+import { matchesPattern } from './Patterns';
+
+/** Facts about the current site that activation rules are tested against */
+export interface IActivationContext {
+  /** Server-relative URL of the current web (e.g., "/sites/int-hr") */
+  serverRelativeUrl: string;
+  /** Hub site id the site is associated with ("" when none) */
+  hubSiteId: string;
+  /** Web template (e.g., "SITEPAGEPUBLISHING#0") */
+  siteTemplate: string;
+  /** Tenant host (e.g., "contoso.sharepoint.com") */
+  host: string;
+}
+
+export interface IActivationResult {
+  active: boolean;
+  reason: string;
+}
+
+/**
+ * Decide whether the customizer runs on the current site. With no include rules it
+ * runs everywhere; any matching exclude rule wins over include rules.
+ */
+export function evaluateActivation(activation: IActivationConfig, context: IActivationContext): IActivationResult {
+  const excludedBy = firstMatch(activation.exclude, context);
+  if (excludedBy) {
+    return { active: false, reason: `excluded by rule ${JSON.stringify(excludedBy)}` };
+  }
+
+  if (activation.include.length === 0) {
+    return { active: true, reason: 'no include rules' };
+  }
+
+  const includedBy = firstMatch(activation.include, context);
+  return includedBy
+    ? { active: true, reason: `included by rule ${JSON.stringify(includedBy)}` }
+    : { active: false, reason: `${context.serverRelativeUrl || '/'} matches no include rule` };
+}
+
+/** A rule matches when every condition it sets matches */
+function ruleMatches(rule: IActivationRule, context: IActivationContext): boolean {
+  // Original case: globs ignore case anyway, regex literals opt in with their own "i" flag
+  const url = context.serverRelativeUrl.replace(/\/$/, '') || '/';
+  return (rule.url === undefined || matchesPattern(rule.url, url))
+    && (rule.hubSiteId === undefined || rule.hubSiteId.toLowerCase() === context.hubSiteId.toLowerCase())
+    && (rule.siteTemplate === undefined || matchesPattern(rule.siteTemplate, context.siteTemplate))
+    && (rule.host === undefined || matchesPattern(rule.host, context.host));
+}
+
+function firstMatch(rules: IActivationRule[], context: IActivationContext): IActivationRule | undefined {
+  for (let i = 0; i < rules.length; i++) {
+    if (ruleMatches(rules[i], context)) return rules[i];
+  }
+  return undefined;
+}
@@ -0,0 +1,31 @@
+// helpers/ActivePath.ts
+import { INavNode } from './NavApi';
+
+/** The navigation node that best matches the current page and the nodes above it */
+export interface IActivePath {
+  node: INavNode;
+  /** Parents of `node`, top-level item first */
+  ancestors: INavNode[];
+}
+
+/**
+ * Find the node whose URL matches the current page most specifically. `score`
+ * returns -1 for URLs that do not contain the page, otherwise higher for closer
+ * matches; on a tie the first node in menu order wins.
+ */
+export function findActivePath(nodes: INavNode[], score: (url: string) => number): IActivePath | null {
+  let best: IActivePath | null = null;
+  let bestScore = -1;
+
+  const visit = (node: INavNode, ancestors: INavNode[]): void => {
+    const nodeScore = node.Url ? score(node.Url) : -1;
+    if (nodeScore > bestScore) {
+      best = { node, ancestors };
+      bestScore = nodeScore;
+    }
+    node.Children.forEach((child: INavNode) => visit(child, ancestors.concat(node)));
+  };
+
+  nodes.forEach((node: INavNode) => visit(node, []));
+  return best;
+}
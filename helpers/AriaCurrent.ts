@@ -0,0 +1,84 @@
+// helpers/AriaCurrent.ts
+
+/** aria-current values used for nav links */
+export type AriaCurrentValue = 'page' | 'location';
+
+/**
+ * Marks elements the customizer set as current. Holds the aria-current value
+ * SharePoint had set before ("" for none) so it can be restored.
+ */
+export const CURRENT_MARKER_ATTRIBUTE = 'data-hub-nav-aria-current';
+
+/** Marks the visually hidden suffix added to the current site link */
+const SUFFIX_ATTRIBUTE = 'data-hub-nav-suffix';
+
+/**
+ * Title of a link rendered by the customizer's own components, whose text also
+ * holds hidden suffixes and expand arrows
+ */
+const TITLE_ATTRIBUTE = 'data-hub-nav-title';
+
+/**
+ * Mark an element as current: aria-current (null to leave it alone) and an
+ * optional visually hidden suffix. Does nothing when the element is already in
+ * that state, so re-runs cause no mutations.
+ */
+export function markCurrent(element: Element, value: AriaCurrentValue | null, suffix: string): void {
+  if (!element.hasAttribute(CURRENT_MARKER_ATTRIBUTE)) {
+    element.setAttribute(CURRENT_MARKER_ATTRIBUTE, element.getAttribute('aria-current') || '');
+  }
+  if (value && element.getAttribute('aria-current') !== value) {
+    element.setAttribute('aria-current', value);
+  }
+
+  const existing = element.querySelector(`[${SUFFIX_ATTRIBUTE}]`);
+  if (existing && existing.textContent !== suffix) {
+    existing.remove();
+  }
+  if (suffix && !(existing && existing.isConnected)) {
+    const span = document.createElement('span');
+    span.className = 'hub-nav-sr-only';
+    span.setAttribute(SUFFIX_ATTRIBUTE, 'true');
+    span.textContent = suffix;
+    element.appendChild(span);
+  }
+}
+
+/**
+ * Undo markCurrent, restoring SharePoint's own aria-current value
+ */
+export function unmarkCurrent(element: Element): void {
+  if (!element.hasAttribute(CURRENT_MARKER_ATTRIBUTE)) return;
+
+  const original = element.getAttribute(CURRENT_MARKER_ATTRIBUTE);
+  if (original) {
+    element.setAttribute('aria-current', original);
+  } else {
+    element.removeAttribute('aria-current');
+  }
+  element.removeAttribute(CURRENT_MARKER_ATTRIBUTE);
+
+  const suffix = element.querySelector(`[${SUFFIX_ATTRIBUTE}]`);
+  if (suffix) suffix.remove();
+}
+
+/** Link text without the hidden suffix (the title for the customizer's own links) */
+export function linkText(element: Element): string {
+  const title = element.getAttribute(TITLE_ATTRIBUTE);
+  if (title !== null) return title;
+
+  const text = element.textContent || '';
+  const suffix = element.querySelector(`[${SUFFIX_ATTRIBUTE}]`);
+  return suffix && suffix.textContent ? text.replace(suffix.textContent, '') : text;
+}
+
+/**
+ * Heading link of the mega menu section containing `link` (null outside mega menus
+ * or when the section heading is a plain label)
+ */
+export function findMenuHeading(link: Element, sectionSelector: string, headingSelector: string): Element | null {
+  const section = link.closest(sectionSelector);
+  if (!section) return null;
+  const heading = section.querySelector(headingSelector);
+  return heading && heading !== link ? heading : null;
+}
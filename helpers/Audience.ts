@@ -0,0 +1,84 @@
+// helpers/Audience.ts
+import { MSGraphClientV3 } from '@microsoft/sp-http';
+import { IAudienceHideRule } from '../INavConfig';
+import { INavNode } from './NavApi';
+import { StorageCache } from './StorageCache';
+import { matchesPattern } from './Patterns';
+
+/** A group the current user belongs to, directly or through nested groups */
+export interface IUserGroup {
+  /** Entra ID object id, lower case */
+  id: string;
+  displayName: string;
+}
+
+/** Most pages of groups read (999 each) */
+const MAX_GROUP_PAGES = 10;
+
+/** A page of /me/transitiveMemberOf */
+interface IGroupPage {
+  value?: { id: string; displayName: string | null }[];
+  '@odata.nextLink'?: string;
+}
+
+/**
+ * The current user's groups from Microsoft Graph. Membership is read once per
+ * browser session: `cache` should be session storage and entries never expire.
+ * Needs GroupMember.Read.All granted to SharePoint's client extensibility principal.
+ */
+export async function getCurrentUserGroups(
+  graphClient: MSGraphClientV3,
+  userKey: string,
+  cache: StorageCache | undefined
+): Promise<IUserGroup[]> {
+  const cacheKey = `groups:${userKey.toLowerCase()}`;
+  const cached = cache ? cache.get<IUserGroup[]>(cacheKey) : undefined;
+  if (cached) return cached.value;
+
+  const groups: IUserGroup[] = [];
+  let path: string | undefined = '/me/transitiveMemberOf/microsoft.graph.group?$select=id,displayName&$top=999';
+  for (let page = 0; path && page < MAX_GROUP_PAGES; page++) {
+    const result: IGroupPage = await graphClient.api(path).get();
+    (result.value ?? []).forEach((group: { id: string; displayName: string | null }) => {
+      groups.push({ id: group.id.toLowerCase(), displayName: group.displayName || '' });
+    });
+    path = result['@odata.nextLink'];
+  }
+
+  if (cache) cache.set(cacheKey, groups);
+  return groups;
+}
+
+/**
+ * Whether the user may see a node. Targeted nodes need a shared group; hide rules
+ * apply on top. While membership is unknown (`groups` null) both fail closed:
+ * targeted nodes and nodes a hide rule matches stay hidden.
+ */
+export function isNodeVisible(node: INavNode, groups: IUserGroup[] | null, hideRules: IAudienceHideRule[]): boolean {
+  if (node.AudienceIds.length > 0) {
+    const audience = node.AudienceIds.map((id: string) => id.toLowerCase());
+    if (!groups || !groups.some((group: IUserGroup) => audience.indexOf(group.id) > -1)) return false;
+  }
+
+  return !hideRules.some((rule: IAudienceHideRule) => hideRuleMatches(rule, node, groups));
+}
+
+/**
+ * Copy of a navigation tree without the nodes `isVisible` rejects (and their children)
+ */
+export function filterNavNodes(nodes: INavNode[], isVisible: (node: INavNode) => boolean): INavNode[] {
+  return nodes
+    .filter(isVisible)
+    .map((node: INavNode) => ({ ...node, Children: filterNavNodes(node.Children, isVisible) }));
+}
+
+/** True when its conditions match the node and its groups include the user (or membership is unknown) */
+function hideRuleMatches(rule: IAudienceHideRule, node: INavNode, groups: IUserGroup[] | null): boolean {
+  if (rule.title !== undefined && !matchesPattern(rule.title, node.Title)) return false;
+  if (rule.url !== undefined && !matchesPattern(rule.url, node.Url)) return false;
+
+  if (!groups) return true;
+  const names = rule.groups.map((group: string) => group.toLowerCase());
+  return groups.some((group: IUserGroup) =>
+    names.indexOf(group.id) > -1 || names.indexOf(group.displayName.toLowerCase()) > -1);
+}
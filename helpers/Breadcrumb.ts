@@ -0,0 +1,44 @@
+// helpers/Breadcrumb.ts
+import { INavNode } from './NavApi';
+
+/** One breadcrumb link */
+export interface ICrumb {
+  title: string;
+  url: string;
+}
+
+/** The locations a breadcrumb is built from, outermost first */
+export interface IBreadcrumbParts {
+  /** The current site's hub (null when not associated or not loaded yet) */
+  hub: ICrumb | null;
+  /** The current web */
+  site: ICrumb;
+  /** Hub nav nodes leading to the current page (active path ancestors and node) */
+  navPath: INavNode[];
+  /** The current page */
+  page: ICrumb;
+}
+
+/**
+ * Build the trail hub › site › navigation ancestors › page. Label-only nav nodes
+ * are left out (every crumb is a link) and a location already on the trail is not
+ * repeated, e.g. when the site is the hub or the page is a nav link.
+ */
+export function buildBreadcrumb(parts: IBreadcrumbParts, urlKey: (url: string) => string): ICrumb[] {
+  const crumbs: ICrumb[] = [];
+  const keys: string[] = [];
+
+  const add = (crumb: ICrumb | null): void => {
+    if (!crumb || !crumb.url || !crumb.title) return;
+    const key = urlKey(crumb.url);
+    if (!key || keys.indexOf(key) > -1) return;
+    keys.push(key);
+    crumbs.push(crumb);
+  };
+
+  add(parts.hub);
+  add(parts.site);
+  parts.navPath.forEach((node: INavNode) => add({ title: node.Title, url: node.Url }));
+  add(parts.page);
+  return crumbs;
+}
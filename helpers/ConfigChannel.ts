@@ -0,0 +1,45 @@
+// helpers/ConfigChannel.ts
+
+/** BroadcastChannel shared by every page of the tenant host running the customizer */
+const CHANNEL_NAME = 'hub-nav-config';
+
+/** Posted after a config file was saved */
+interface IConfigSavedMessage {
+  type: 'saved';
+  /** Absolute URL of the saved file */
+  url: string;
+}
+
+/**
+ * Tells other tabs when the config editor saved a config file, so they reload it
+ * without waiting for revalidation. Does nothing where BroadcastChannel is unavailable.
+ */
+export class ConfigChannel {
+  private _channel: BroadcastChannel | null = null;
+  private _onMessage: (event: MessageEvent) => void;
+
+  constructor(onSaved: (url: string) => void) {
+    this._onMessage = (event: MessageEvent) => {
+      const message = event.data as IConfigSavedMessage | null;
+      if (message && message.type === 'saved' && typeof message.url === 'string') onSaved(message.url);
+    };
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this._channel = new BroadcastChannel(CHANNEL_NAME);
+      this._channel.addEventListener('message', this._onMessage);
+    }
+  }
+
+  /** Tell the other tabs that a config file changed (the sending tab is not notified) */
+  public notifySaved(url: string): void {
+    if (this._channel) this._channel.postMessage({ type: 'saved', url } as IConfigSavedMessage);
+  }
+
+  public close(): void {
+    if (this._channel) {
+      this._channel.removeEventListener('message', this._onMessage);
+      this._channel.close();
+      this._channel = null;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+// helpers/ConfigFile.ts
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { INavConfig, NAV_CONFIG_SCHEMA_VERSION } from '../INavConfig';
+import { IJsonObject, isJsonObject, migrateNavConfig } from './ConfigValidator';
+import { getWithTimeout } from './HttpUtils';
+
+/** Query-string switch that opens the config editor for site owners (e.g., ?hubnavedit=1) */
+export const EDIT_QUERY_PARAM = 'hubnavedit';
+
+/** A site's config file as read for editing */
+export interface IConfigFile {
+  /** Absolute URL of the file */
+  url: string;
+  /** Content migrated to the current schema, other keys untouched ({} when the file does not exist yet) */
+  json: IJsonObject;
+  /** ETag of the version read; null when the file does not exist yet */
+  etag: string | null;
+}
+
+/** Failed config file request */
+export class ConfigFileError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ConfigFileError';
+    this.status = status;
+  }
+}
+
+/** The file was changed or created by someone else since it was read */
+export class ConfigConflictError extends ConfigFileError {
+  constructor(url: string) {
+    super(`${url} was changed by someone else`, 412);
+    this.name = 'ConfigConflictError';
+  }
+}
+
+/**
+ * True for ConfigConflictError. Checks the name, since instanceof does not work
+ * for Error subclasses compiled to ES5.
+ */
+export function isConfigConflict(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ConfigConflictError';
+}
+
+export function isEditRequested(search: string): boolean {
+  const value = new URLSearchParams(search).get(EDIT_QUERY_PARAM);
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Read a config file with its ETag, bypassing the browser cache. A missing file
+ * reads as empty so saving creates it.
+ */
+export async function readConfigFile(spHttpClient: SPHttpClient, url: string, timeoutMs: number): Promise<IConfigFile> {
+  let res: SPHttpClientResponse;
+  try {
+    res = await getWithTimeout(spHttpClient, url, timeoutMs, undefined, { 'Cache-Control': 'no-cache' });
+  } catch (error) {
+    throw new ConfigFileError(`Config file request failed: ${error}`, 0);
+  }
+
+  if (res.status === 404) return { url, json: {}, etag: null };
+  if (!res.ok) {
+    throw new ConfigFileError(`Config file request returned ${res.status} ${res.statusText}`, res.status);
+  }
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch (error) {
+    throw new ConfigFileError(`${url} is not valid JSON, fix it by hand before editing`, res.status);
+  }
+  if (!isJsonObject(json)) {
+    throw new ConfigFileError(`${url} is not a JSON object, fix it by hand before editing`, res.status);
+  }
+
+  return { url, json: migrateNavConfig(json, () => undefined), etag: res.headers.get('ETag') };
+}
+
+/**
+ * File content after an edit: only the values changed between `before` and `after`
+ * are written, each at its own key path (arrays as a whole), so the rest of an
+ * object such as `activePath` stays inherited from the tenant or hub config.
+ * Values removed in `after` are removed from the file.
+ */
+export function applyConfigChanges(file: IConfigFile, before: INavConfig, after: INavConfig): IJsonObject {
+  const json = writeChanges(file.json, before as unknown as IJsonObject, after as unknown as IJsonObject);
+  json.schemaVersion = NAV_CONFIG_SCHEMA_VERSION;
+  return json;
+}
+
+/** Copy of `target` with the leaf values that differ between `before` and `after` written into it */
+function writeChanges(target: IJsonObject, before: IJsonObject, after: IJsonObject): IJsonObject {
+  const json: IJsonObject = { ...target };
+  const keys = Object.keys(before).concat(Object.keys(after).filter((key: string) => !(key in before)));
+
+  keys.forEach((key: string) => {
+    const previous = before[key];
+    const edited = after[key];
+    if (JSON.stringify(edited) === JSON.stringify(previous)) return;
+
+    if (isJsonObject(previous) && isJsonObject(edited)) {
+      json[key] = writeChanges(isJsonObject(json[key]) ? json[key] as IJsonObject : {}, previous, edited);
+    } else if (edited === undefined) {
+      delete json[key];
+    } else {
+      json[key] = edited;
+    }
+  });
+  return json;
+}
+
+/**
+ * Save config file content if the file is still the version that was read
+ * (If-Match on its ETag; a file that did not exist is only created if it still
+ * does not). Throws ConfigConflictError otherwise. Returns the file as saved,
+ * with the ETag from the response.
+ */
+export async function saveConfigFile(
+  spHttpClient: SPHttpClient,
+  webUrl: string,
+  file: IConfigFile,
+  json: IJsonObject,
+  timeoutMs: number
+): Promise<IConfigFile> {
+  const baseUrl = webUrl.replace(/\/$/, '');
+  const path = decodeURIComponent(new URL(file.url).pathname);
+  const slash = path.lastIndexOf('/');
+  const body = JSON.stringify(json, null, 2);
+
+  let res: SPHttpClientResponse;
+  try {
+    res = file.etag
+      ? await spHttpClient.post(`${baseUrl}/_api/web/GetFileByServerRelativePath(decodedurl='${odataPath(path)}')/$value`,
+        SPHttpClient.configurations.v1, { headers: { 'X-HTTP-Method': 'PUT', 'If-Match': file.etag }, body })
+      : await spHttpClient.post(`${baseUrl}/_api/web/GetFolderByServerRelativePath(decodedurl='${odataPath(path.substr(0, slash))}')` +
+        `/Files/AddUsingPath(decodedurl='${odataPath(path.substr(slash + 1))}',overwrite=false)`,
+        SPHttpClient.configurations.v1, { body });
+  } catch (error) {
+    throw new ConfigFileError(`Saving the config file failed: ${error}`, 0);
+  }
+
+  if (res.status === 412) throw new ConfigConflictError(file.url);
+  if (!res.ok) {
+    // Creating fails when someone else created the file meanwhile
+    if (!file.etag && (await readConfigFile(spHttpClient, file.url, timeoutMs)).etag) {
+      throw new ConfigConflictError(file.url);
+    }
+    throw new ConfigFileError(`Saving the config file returned ${res.status} ${res.statusText}`, res.status);
+  }
+
+  // Re-reading could pick up someone else's later save, so only when the response has no ETag
+  const etag = await savedETag(res);
+  return etag ? { url: file.url, json, etag } : readConfigFile(spHttpClient, file.url, timeoutMs);
+}
+
+/**
+ * ETag of the saved file: the ETag header of a content update, or the ETag of the
+ * file object that AddUsingPath returns
+ */
+async function savedETag(res: SPHttpClientResponse): Promise<string | null> {
+  const header = res.headers.get('ETag');
+  if (header) return header;
+  try {
+    const body = await res.json();
+    return isJsonObject(body) && typeof body.ETag === 'string' ? body.ETag : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/** Server-relative path quoted for an OData string literal in a URL */
+function odataPath(path: string): string {
+  return encodeURIComponent(path.replace(/'/g, "''"));
+}
@@ -0,0 +1,262 @@
+// helpers/ConfigResolver.ts
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { INavConfig, DEFAULT_NAV_CONFIG, IEnvironmentProfile, NAV_CONFIG_SCHEMA_VERSION } from '../INavConfig';
+import { IConfigWarning, IJsonObject, isJsonObject, sanitizeNavConfig } from './ConfigValidator';
+import { StorageCache } from './StorageCache';
+import { getWithTimeout } from './HttpUtils';
+import { selectProfile } from './Profiles';
+
+/** Where a config value came from, lowest precedence first */
+export type ConfigLayer = 'default' | 'tenant' | 'hub' | 'site' | 'profile' | 'properties';
+
+/** A config layer that was found and merged */
+export interface IConfigLayerInfo {
+  layer: ConfigLayer;
+  /** URL or description of where the layer was read from */
+  location: string;
+}
+
+/** Merged, validated config with provenance */
+export interface IResolvedConfig {
+  config: INavConfig;
+  warnings: IConfigWarning[];
+  /** Layers that contributed, in merge order */
+  layers: IConfigLayerInfo[];
+  /** Layer that supplied each final value, keyed by dotted path */
+  sources: { [keyPath: string]: ConfigLayer };
+  /** Absolute URL of the hub site ("" when the site is not associated with a hub) */
+  hubSiteUrl: string;
+  /** Name of the environment profile applied ("" when none matched) */
+  profile: string;
+}
+
+export interface IConfigResolverOptions {
+  /** Absolute URL of the current web */
+  webAbsoluteUrl: string;
+  /** Hub site id of the current site ("" when not associated with a hub) */
+  hubSiteId: string;
+  /** Config file path relative to a site (e.g., "SiteAssets/hub-nav-config.json") */
+  configPath: string;
+  /** Tenant storage entity key holding tenant-wide config JSON or a URL to it */
+  tenantConfigKey: string;
+  /** Config set on the customizer's ClientSideComponentProperties */
+  properties?: IJsonObject;
+  /** Cache for fetched documents; omit to always hit the network */
+  cache?: StorageCache;
+  /** How long a cached document is used without revalidation (ms) */
+  ttlMs: number;
+  /** Per-request timeout (ms) */
+  timeoutMs: number;
+  /** Aborts outstanding requests (e.g., on dispose) */
+  signal?: AbortSignal;
+}
+
+/** Cached config document; `missing` records a 404 so it is not re-requested */
+interface ICachedDocument {
+  missing: boolean;
+  json?: unknown;
+}
+
+const EMPTY_GUID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Loads hub-nav-config.json from the tenant, the hub site and the current site,
+ * applies the environment profile matching the site, then the component properties,
+ * and deep-merges them in that order.
+ */
+export class ConfigResolver {
+  private _spHttpClient: SPHttpClient;
+  private _options: IConfigResolverOptions;
+
+  constructor(spHttpClient: SPHttpClient, options: IConfigResolverOptions) {
+    this._spHttpClient = spHttpClient;
+    this._options = options;
+  }
+
+  /** URL of the current site's config file, also used as the resolved-config cache key */
+  public get siteConfigUrl(): string {
+    return this._configUrl(this._options.webAbsoluteUrl);
+  }
+
+  /** Drop the cached copy of the current site's config file, e.g., after saving it */
+  public forgetSiteConfig(): void {
+    this.forgetDocument(this.siteConfigUrl);
+  }
+
+  /** Drop the cached copy of a config document so the next resolve reads it again */
+  public forgetDocument(url: string): void {
+    if (this._options.cache) this._options.cache.remove(`doc:${url}`);
+  }
+
+  public async resolve(): Promise<IResolvedConfig> {
+    const warnings: IConfigWarning[] = [];
+    const layers: IConfigLayerInfo[] = [];
+    const sources: { [keyPath: string]: ConfigLayer } = {};
+    const merged: IJsonObject = {};
+    mergeInto(merged, DEFAULT_NAV_CONFIG as unknown as IJsonObject, 'default', sources, '');
+
+    const addLayer = (layer: ConfigLayer, location: string, json: unknown): void => {
+      if (!isJsonObject(json)) {
+        warnings.push({ key: '(root)', reason: `${layer} config at ${location} is not a JSON object` });
+        return;
+      }
+      // Validate per layer so a bad value falls back to the layer below it
+      const accepted = sanitizeNavConfig(json, (key: string, reason: string) => {
+        warnings.push({ key, reason: `${reason} (${layer})` });
+      });
+      mergeInto(merged, accepted, layer, sources, '');
+      layers.push({ layer, location });
+    };
+
+    const tenant = await this._loadTenantLayer(warnings);
+    if (tenant) addLayer('tenant', tenant.location, tenant.json);
+
+    const siteConfigUrl = this.siteConfigUrl;
+    const hubUrl = await this._getHubSiteUrl();
+    if (hubUrl) {
+      const hubConfigUrl = this._configUrl(hubUrl);
+      if (hubConfigUrl.toLowerCase() !== siteConfigUrl.toLowerCase()) {
+        const hubJson = await this._getJson(hubConfigUrl, warnings);
+        if (hubJson !== undefined) addLayer('hub', hubConfigUrl, hubJson);
+      }
+    }
+
+    const siteJson = await this._getJson(siteConfigUrl, warnings);
+    if (siteJson !== undefined) addLayer('site', siteConfigUrl, siteJson);
+
+    // Profiles come from the files merged so far and override them
+    const site = new URL(this._options.webAbsoluteUrl);
+    const profile = selectProfile(merged.profiles as IEnvironmentProfile[], { host: site.host, serverRelativeUrl: site.pathname });
+    if (profile) addLayer('profile', profile.name, profile.overrides);
+
+    if (this._options.properties && Object.keys(this._options.properties).length > 0) {
+      addLayer('properties', 'ClientSideComponentProperties', this._options.properties);
+    }
+
+    merged.schemaVersion = NAV_CONFIG_SCHEMA_VERSION;
+    return { config: merged as unknown as INavConfig, warnings, layers, sources, hubSiteUrl: hubUrl, profile: profile ? profile.name : '' };
+  }
+
+  private _configUrl(siteUrl: string): string {
+    return `${siteUrl.replace(/\/$/, '')}/${this._options.configPath.replace(/^\//, '')}`;
+  }
+
+  /**
+   * Read the tenant storage entity; its value is either config JSON or a URL to a config file
+   */
+  private async _loadTenantLayer(warnings: IConfigWarning[]): Promise<{ location: string; json: unknown } | undefined> {
+    if (!this._options.tenantConfigKey) return undefined;
+
+    const entityUrl = `${this._options.webAbsoluteUrl}/_api/web/GetStorageEntity('${encodeURIComponent(this._options.tenantConfigKey)}')`;
+    const entity = await this._getJson(entityUrl, warnings);
+    const value = isJsonObject(entity) && typeof entity.Value === 'string' ? entity.Value.trim() : '';
+    if (!value) return undefined;
+
+    if (value.charAt(0) === '{') {
+      try {
+        return { location: `tenant property ${this._options.tenantConfigKey}`, json: JSON.parse(value) };
+      } catch (error) {
+        warnings.push({ key: '(root)', reason: `tenant property ${this._options.tenantConfigKey} is not valid JSON` });
+        return undefined;
+      }
+    }
+
+    const json = await this._getJson(value, warnings);
+    return json === undefined ? undefined : { location: value, json };
+  }
+
+  private async _getHubSiteUrl(): Promise<string> {
+    const hubSiteId = this._options.hubSiteId;
+    if (!hubSiteId || hubSiteId === EMPTY_GUID) return '';
+
+    const url = `${this._options.webAbsoluteUrl}/_api/HubSites/GetById?hubSiteId='${hubSiteId}'`;
+    const hub = await this._getJson(url, []);
+    return isJsonObject(hub) && typeof hub.SiteUrl === 'string' ? hub.SiteUrl : '';
+  }
+
+  /**
+   * GET a JSON document. Returns undefined when it is missing or unreadable.
+   * Fresh cached copies are used as-is; stale ones are revalidated with If-None-Match
+   * and still served when the request fails.
+   */
+  private async _getJson(url: string, warnings: IConfigWarning[]): Promise<unknown> {
+    const cache = this._options.cache;
+    const cacheKey = `doc:${url}`;
+    const cached = cache ? cache.get<ICachedDocument>(cacheKey) : undefined;
+
+    if (cached && StorageCache.isFresh(cached, this._options.ttlMs)) {
+      return cached.value.json;
+    }
+
+    let response: SPHttpClientResponse;
+    try {
+      const headers: { [name: string]: string } = cached && cached.etag ? { 'If-None-Match': cached.etag } : {};
+      response = await getWithTimeout(this._spHttpClient, url, this._options.timeoutMs, this._options.signal, headers);
+    } catch (error) {
+      warnings.push({ key: '(root)', reason: `request to ${url} failed: ${error}` });
+      return cached ? cached.value.json : undefined;
+    }
+
+    if (response.status === 304 && cached) {
+      if (cache) cache.set(cacheKey, cached.value, cached.etag);
+      return cached.value.json;
+    }
+
+    if (response.status === 404) {
+      if (cache) cache.set<ICachedDocument>(cacheKey, { missing: true });
+      return undefined;
+    }
+
+    if (!response.ok) {
+      return cached ? cached.value.json : undefined;
+    }
+
+    try {
+      const json = await response.json();
+      if (cache) cache.set<ICachedDocument>(cacheKey, { missing: false, json }, response.headers.get('ETag') || undefined);
+      return json;
+    } catch (error) {
+      warnings.push({ key: '(root)', reason: `${url} is not valid JSON` });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Deep-merge `source` into `target`: objects merge key by key, arrays and values replace.
+ * Records the layer of every leaf value in `sources`.
+ */
+function mergeInto(
+  target: IJsonObject,
+  source: IJsonObject,
+  layer: ConfigLayer,
+  sources: { [keyPath: string]: ConfigLayer },
+  prefix: string
+): void {
+  Object.keys(source).forEach((key: string) => {
+    const path = prefix + key;
+    const value = source[key];
+
+    if (isJsonObject(value)) {
+      const existing = target[key];
+      if (!isJsonObject(existing)) {
+        clearSources(sources, path);
+        target[key] = {};
+      }
+      mergeInto(target[key] as IJsonObject, value, layer, sources, `${path}.`);
+      return;
+    }
+
+    clearSources(sources, path);
+    target[key] = value;
+    sources[path] = layer;
+  });
+}
+
+function clearSources(sources: { [keyPath: string]: ConfigLayer }, path: string): void {
+  Object.keys(sources).forEach((key: string) => {
+    if (key === path || key.indexOf(`${path}.`) === 0) {
+      delete sources[key];
+    }
+  });
+}
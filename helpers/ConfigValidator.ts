@@ -0,0 +1,527 @@
+// helpers/ConfigValidator.ts
+import { INavConfig, DEFAULT_NAV_CONFIG, NAV_CONFIG_SCHEMA_VERSION } from '../INavConfig';
+import { patternError } from './Patterns';
+import { isValidSelector } from './SelectorRegistry';
+
+/** A single rejected or adjusted config value */
+export interface IConfigWarning {
+  /** Config key, dotted for nested values (e.g., "currentSiteColor") */
+  key: string;
+  /** Why the value was rejected */
+  reason: string;
+}
+
+/** Validated config plus everything that was dropped on the way */
+export interface IConfigValidationResult {
+  config: INavConfig;
+  warnings: IConfigWarning[];
+}
+
+/** Reports a problem with a config key */
+export type ConfigWarn = (key: string, reason: string) => void;
+
+/**
+ * Checks one config value. Returns the accepted (possibly normalised) value,
+ * or undefined after calling `warn` when the value is rejected.
+ */
+export type FieldValidator = (value: unknown, key: string, warn: ConfigWarn) => unknown;
+
+/** Plain JSON object */
+export interface IJsonObject {
+  [key: string]: unknown;
+}
+
+/** Upgrades a raw config object from one schema version to the next */
+type ConfigMigration = (json: IJsonObject) => IJsonObject;
+
+/** Hex, rgb()/hsl() functions, var() references or a bare keyword such as "red" or "themePrimary" */
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|(rgb|rgba|hsl|hsla)\([0-9.,%\s/+-]+\)|var\(--[\w-]+\)|[a-z]+)$/i;
+
+const FONT_WEIGHT_KEYWORDS: { [keyword: string]: number } = { normal: 400, bold: 700 };
+
+const MANAGED_PATH_PATTERN = /^[\w-]+$/;
+
+const HOST_PATTERN = /^[a-z0-9.-]+(:\d+)?$/i;
+
+const FILE_EXTENSION_PATTERN = /^\.?[a-z0-9]+$/i;
+
+const CLASS_NAMES_PATTERN = /^-?[_a-z][\w-]*(\s+-?[_a-z][\w-]*)*$/i;
+
+export function isJsonObject(value: unknown): value is IJsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** True when the value can be pasted into a CSS declaration as a colour */
+export function isSafeCssColor(value: unknown): value is string {
+  return typeof value === 'string' && CSS_COLOR_PATTERN.test(value.trim());
+}
+
+export const cssColor: FieldValidator = (value, key, warn) => {
+  if (typeof value !== 'string') {
+    warn(key, `expected a colour string, got ${typeof value}`);
+    return undefined;
+  }
+  if (!isSafeCssColor(value)) {
+    warn(key, `"${value}" is not an allowed CSS colour (hex, rgb(), hsl(), var(), a colour name or a theme slot)`);
+    return undefined;
+  }
+  return value.trim();
+};
+
+export const fontWeight: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'number') {
+    if (value % 1 !== 0 || value < 1 || value > 1000) {
+      warn(key, `font weight ${value} must be a whole number between 1 and 1000`);
+      return undefined;
+    }
+    return value;
+  }
+  if (typeof value === 'string' && FONT_WEIGHT_KEYWORDS.hasOwnProperty(value)) {
+    return FONT_WEIGHT_KEYWORDS[value];
+  }
+  warn(key, `expected a number, "normal" or "bold", got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+export function oneOf(allowed: string[]): FieldValidator {
+  return (value, key, warn) => {
+    if (typeof value === 'string' && allowed.indexOf(value) > -1) return value;
+    warn(key, `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    return undefined;
+  };
+}
+
+export function stringArray(pattern: RegExp, description: string): FieldValidator {
+  return (value, key, warn) => {
+    if (!Array.isArray(value)) {
+      warn(key, `expected an array of ${description}`);
+      return undefined;
+    }
+    const accepted: string[] = [];
+    value.forEach((item: unknown, index: number) => {
+      if (typeof item === 'string' && pattern.test(item)) {
+        accepted.push(item);
+      } else {
+        warn(`${key}[${index}]`, `${JSON.stringify(item)} is not a valid ${description}`);
+      }
+    });
+    return accepted;
+  };
+}
+
+export const integer: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'number' && value % 1 === 0) return value;
+  warn(key, `expected a whole number, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+export const positiveInteger: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'number' && value % 1 === 0 && value > 0) return value;
+  warn(key, `expected a whole number above 0, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+/** A share between 0 and 1 */
+export const fraction: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'number' && value >= 0 && value <= 1) return value;
+  warn(key, `expected a number from 0 to 1, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+export const httpsUrl: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'string' && /^https:\/\/[^\s/]+(\/\S*)?$/i.test(value)) return value;
+  warn(key, 'expected an https:// URL');
+  return undefined;
+};
+
+/**
+ * Validate a nested object: unknown keys are reported and only valid keys are kept,
+ * so missing keys can be filled from lower config layers or defaults
+ */
+export function objectOf(validators: { [key: string]: FieldValidator }): FieldValidator {
+  return (value, key, warn) => {
+    if (!isJsonObject(value)) {
+      warn(key, 'expected an object');
+      return undefined;
+    }
+    const accepted: IJsonObject = {};
+    Object.keys(value).forEach((childKey: string) => {
+      const validator = validators[childKey];
+      if (!validator) {
+        warn(`${key}.${childKey}`, 'unknown key');
+        return;
+      }
+      const childValue = validator(value[childKey], `${key}.${childKey}`, warn);
+      if (childValue !== undefined) accepted[childKey] = childValue;
+    });
+    return accepted;
+  };
+}
+
+/** Array whose items are checked one by one; invalid items are dropped */
+export function arrayOf(itemValidator: FieldValidator): FieldValidator {
+  return (value, key, warn) => {
+    if (!Array.isArray(value)) {
+      warn(key, 'expected an array');
+      return undefined;
+    }
+    const accepted: unknown[] = [];
+    value.forEach((item: unknown, index: number) => {
+      const itemValue = itemValidator(item, `${key}[${index}]`, warn);
+      if (itemValue !== undefined) accepted.push(itemValue);
+    });
+    return accepted;
+  };
+}
+
+/** Glob or regex literal, see Patterns.compilePattern */
+export const globOrRegex: FieldValidator = (value, key, warn) => {
+  if (typeof value !== 'string' || !value) {
+    warn(key, 'expected a non-empty pattern string');
+    return undefined;
+  }
+  const error = patternError(value);
+  if (error) {
+    warn(key, `invalid pattern: ${error}`);
+    return undefined;
+  }
+  return value;
+};
+
+export const bool: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'boolean') return value;
+  warn(key, `expected true or false, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+export const text: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'string') return value;
+  warn(key, `expected a string, got ${typeof value}`);
+  return undefined;
+};
+
+export const cssSelector: FieldValidator = (value, key, warn) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    warn(key, 'expected a non-empty CSS selector');
+    return undefined;
+  }
+  if (!isValidSelector(value)) {
+    warn(key, `"${value}" is not a valid CSS selector`);
+    return undefined;
+  }
+  return value.trim();
+};
+
+const selectorOverrides = objectOf({
+  add: arrayOf(cssSelector),
+  remove: arrayOf(text)
+});
+
+/** Space-separated CSS class names */
+export const classNames: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'string' && CLASS_NAMES_PATTERN.test(value.trim())) return value.trim();
+  warn(key, `${JSON.stringify(value)} is not a list of CSS class names`);
+  return undefined;
+};
+
+/** File extensions, normalised to lower case without the dot */
+export const fileExtensions: FieldValidator = (value, key, warn) => {
+  const accepted = stringArray(FILE_EXTENSION_PATTERN, 'file extension')(value, key, warn);
+  return Array.isArray(accepted)
+    ? accepted.map((ext: string) => ext.replace(/^\./, '').toLowerCase())
+    : undefined;
+};
+
+/** Short text for the "icon" indicator */
+export const iconText: FieldValidator = (value, key, warn) => {
+  if (typeof value === 'string' && value.trim().length > 0 && value.trim().length <= 4) return value.trim();
+  warn(key, 'expected one to four characters');
+  return undefined;
+};
+
+/**
+ * A rule object that is dropped as a whole when any of its conditions is invalid,
+ * so a typo never makes a rule match more sites than intended
+ */
+function strictRule(validator: FieldValidator): FieldValidator {
+  return (value, key, warn) => {
+    let invalid = false;
+    const accepted = validator(value, key, (childKey: string, reason: string) => {
+      invalid = true;
+      warn(childKey, reason);
+    });
+    if (invalid || !isJsonObject(accepted) || Object.keys(accepted).length === 0) {
+      warn(key, 'rule dropped: it has invalid or no conditions');
+      return undefined;
+    }
+    return accepted;
+  };
+}
+
+const activationRule = strictRule(objectOf({
+  url: globOrRegex,
+  hubSiteId: text,
+  siteTemplate: globOrRegex,
+  host: globOrRegex
+}));
+
+const linkStyle = objectOf({
+  color: cssColor,
+  fontWeight: fontWeight,
+  backgroundColor: cssColor,
+  textDecoration: oneOf(['none', 'underline', 'line-through', 'overline']),
+  fontStyle: oneOf(['normal', 'italic'])
+});
+
+const styleRuleFields = strictRule(objectOf({
+  match: strictRule(objectOf({
+    url: globOrRegex,
+    external: bool,
+    hub: oneOf(['same', 'other']),
+    extension: fileExtensions,
+    title: globOrRegex,
+    current: bool
+  })),
+  style: linkStyle,
+  className: classNames
+}));
+
+/** A style rule needs a condition and something to apply */
+const styleRule: FieldValidator = (value, key, warn) => {
+  const accepted = styleRuleFields(value, key, warn);
+  if (!isJsonObject(accepted)) return undefined;
+
+  const hasStyle = isJsonObject(accepted.style) && Object.keys(accepted.style).length > 0;
+  if (!accepted.match || (!hasStyle && !accepted.className)) {
+    warn(key, 'rule dropped: it needs "match" and a "style" or "className"');
+    return undefined;
+  }
+  return accepted;
+};
+
+const hideRuleFields = strictRule(objectOf({
+  groups: stringArray(/\S/, 'group id or name'),
+  title: globOrRegex,
+  url: globOrRegex
+}));
+
+/** A hide rule needs groups and a title or URL condition */
+const audienceHideRule: FieldValidator = (value, key, warn) => {
+  const accepted = hideRuleFields(value, key, warn);
+  if (!isJsonObject(accepted)) return undefined;
+
+  if (!Array.isArray(accepted.groups) || accepted.groups.length === 0 || (!accepted.title && !accepted.url)) {
+    warn(key, 'rule dropped: it needs "groups" and a "title" or "url"');
+    return undefined;
+  }
+  return accepted;
+};
+
+/** A profile may override every key except the schema version and the profiles themselves */
+const profileOverrides: FieldValidator = (value, key, warn) => {
+  const validators: { [key: string]: FieldValidator } = { ...FIELD_VALIDATORS };
+  delete validators.schemaVersion;
+  delete validators.profiles;
+  return objectOf(validators)(value, key, warn);
+};
+
+const profileFields = objectOf({
+  name: text,
+  match: strictRule(objectOf({
+    host: globOrRegex,
+    url: globOrRegex
+  })),
+  overrides: profileOverrides
+});
+
+/** A profile needs a name and a match; a profile without overrides changes nothing */
+const environmentProfile: FieldValidator = (value, key, warn) => {
+  const accepted = profileFields(value, key, warn);
+  if (!isJsonObject(accepted)) return undefined;
+
+  if (!accepted.name || !accepted.match) {
+    warn(key, 'profile dropped: it needs a "name" and a "match"');
+    return undefined;
+  }
+  return { ...accepted, overrides: accepted.overrides || {} };
+};
+
+/** One validator per top-level INavConfig key */
+const FIELD_VALIDATORS: { [K in keyof INavConfig]: FieldValidator } = {
+  schemaVersion: integer,
+  currentSiteColor: cssColor,
+  currentSiteFontWeight: fontWeight,
+  otherSiteColor: cssColor,
+  otherSiteFontWeight: fontWeight,
+  matchMode: oneOf(['site', 'web', 'page']),
+  managedPaths: stringArray(MANAGED_PATH_PATTERN, 'managed path name'),
+  hostAliases: stringArray(HOST_PATTERN, 'host name'),
+  activation: objectOf({
+    include: arrayOf(activationRule),
+    exclude: arrayOf(activationRule)
+  }),
+  renderMode: oneOf(['highlight', 'replace']),
+  menuHeadings: objectOf({
+    enabled: bool,
+    color: cssColor,
+    fontWeight: fontWeight,
+    hoverColor: cssColor
+  }),
+  selectors: objectOf({
+    hubNav: selectorOverrides,
+    megaMenu: selectorOverrides,
+    siteHeader: selectorOverrides
+  }),
+  styleRules: arrayOf(styleRule),
+  indicator: objectOf({
+    style: oneOf(['none', 'underline', 'bar', 'pill', 'icon']),
+    color: cssColor,
+    pillBackground: cssColor,
+    icon: iconText
+  }),
+  linkStates: objectOf({
+    hoverColor: cssColor,
+    focusColor: cssColor,
+    visitedColor: cssColor
+  }),
+  accessibility: objectOf({
+    ariaCurrent: bool,
+    currentSuffix: bool,
+    announceNavigation: bool
+  }),
+  activePath: objectOf({
+    enabled: bool,
+    currentColor: cssColor,
+    currentFontWeight: fontWeight,
+    ancestorColor: cssColor,
+    ancestorFontWeight: fontWeight
+  }),
+  hubSwitcher: objectOf({
+    enabled: bool,
+    label: text
+  }),
+  breadcrumb: objectOf({
+    enabled: bool,
+    collapseBelowPx: integer
+  }),
+  mobile: objectOf({
+    enabled: bool,
+    collapseBelowPx: integer
+  }),
+  audiences: objectOf({
+    enabled: bool,
+    hide: arrayOf(audienceHideRule)
+  }),
+  telemetry: objectOf({
+    enabled: bool,
+    sink: oneOf(['console', 'list', 'http']),
+    listTitle: text,
+    listSiteUrl: httpsUrl,
+    endpoint: httpsUrl,
+    sampleRate: fraction,
+    batchSize: positiveInteger,
+    flushIntervalMs: positiveInteger,
+    honorDoNotTrack: bool,
+    optOutUsers: stringArray(/\S/, 'login name')
+  }),
+  profiles: arrayOf(environmentProfile)
+};
+
+/** Migrations keyed by the version they upgrade from */
+const MIGRATIONS: { [fromVersion: number]: ConfigMigration } = {
+  // Version 1 files were read with `||` fallbacks, so font weights were often written as strings
+  1: (json: IJsonObject): IJsonObject => {
+    const migrated: IJsonObject = {};
+    Object.keys(json).forEach((key: string) => {
+      const value = json[key];
+      migrated[key] = /FontWeight$/.test(key) && typeof value === 'string' && /^\d+$/.test(value)
+        ? parseInt(value, 10)
+        : value;
+    });
+    migrated.schemaVersion = 2;
+    return migrated;
+  }
+};
+
+/**
+ * Upgrade a raw config object to the current schema version
+ */
+export function migrateNavConfig(json: IJsonObject, warn: ConfigWarn): IJsonObject {
+  let version = typeof json.schemaVersion === 'number' ? json.schemaVersion : 1;
+  let migrated = json;
+
+  if (version > NAV_CONFIG_SCHEMA_VERSION) {
+    warn('schemaVersion', `version ${version} is newer than supported version ${NAV_CONFIG_SCHEMA_VERSION}; unknown keys are ignored`);
+    return migrated;
+  }
+
+  while (version < NAV_CONFIG_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      warn('schemaVersion', `no migration from version ${version}`);
+      break;
+    }
+    migrated = migration(migrated);
+    version++;
+  }
+
+  return migrated;
+}
+
+/**
+ * Migrate a parsed config object and keep only the keys that pass validation
+ */
+export function sanitizeNavConfig(json: IJsonObject, warn: ConfigWarn): IJsonObject {
+  const migrated = migrateNavConfig(json, warn);
+  const accepted: IJsonObject = {};
+
+  Object.keys(migrated).forEach((key: string) => {
+    if (key.charAt(0) === '$' || key === 'schemaVersion') return;
+
+    const validator = (FIELD_VALIDATORS as { [key: string]: FieldValidator })[key];
+    if (!validator) {
+      warn(key, 'unknown key');
+      return;
+    }
+
+    const value = validator(migrated[key], key, warn);
+    if (value !== undefined) {
+      accepted[key] = value;
+    }
+  });
+
+  return accepted;
+}
+
+/**
+ * Migrate and validate a parsed hub-nav-config.json. Invalid or unknown keys are
+ * dropped (falling back to `defaults`) and reported as warnings.
+ */
+export function validateNavConfig(json: unknown, defaults: INavConfig = DEFAULT_NAV_CONFIG): IConfigValidationResult {
+  const warnings: IConfigWarning[] = [];
+  const warn: ConfigWarn = (key: string, reason: string) => warnings.push({ key, reason });
+
+  if (!isJsonObject(json)) {
+    warn('(root)', 'config must be a JSON object');
+    return { config: deepMerge(defaults as unknown as IJsonObject, {}) as unknown as INavConfig, warnings };
+  }
+
+  const merged = deepMerge(defaults as unknown as IJsonObject, sanitizeNavConfig(json, warn));
+  const config = merged as unknown as INavConfig;
+  config.schemaVersion = NAV_CONFIG_SCHEMA_VERSION;
+  return { config, warnings };
+}
+
+/**
+ * Merge `override` over `base` without mutating either: objects merge key by key,
+ * arrays and values replace
+ */
+export function deepMerge(base: IJsonObject, override: IJsonObject): IJsonObject {
+  const result: IJsonObject = { ...base };
+  Object.keys(override).forEach((key: string) => {
+    const baseValue = result[key];
+    const value = override[key];
+    result[key] = isJsonObject(baseValue) && isJsonObject(value) ? deepMerge(baseValue, value) : value;
+  });
+  return result;
+}
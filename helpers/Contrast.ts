@@ -0,0 +1,111 @@
+// helpers/Contrast.ts
+import { INavConfig } from '../INavConfig';
+import { IConfigWarning } from './ConfigValidator';
+import { IThemeSlots, resolveColor } from './ThemeTokens';
+
+/** WCAG 2.1 AA minimum for normal text */
+const TEXT_CONTRAST = 4.5;
+
+/** WCAG 2.1 AA minimum for non-text indicators (and colour-only differences) */
+const NON_TEXT_CONTRAST = 3;
+
+type Rgb = [number, number, number];
+
+/**
+ * Parse a CSS colour into RGB. Hex and rgb() are parsed directly; other values
+ * (names, hsl()) go through the browser. Returns null for unresolvable values such as var().
+ */
+export function parseColor(value: string): Rgb | null {
+  const color = value.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(color);
+  if (hex) {
+    const digits = hex[1].length <= 4
+      ? hex[1].split('').map((d: string) => d + d).join('')
+      : hex[1];
+    return [0, 2, 4].map((i: number) => parseInt(digits.substr(i, 2), 16)) as Rgb;
+  }
+
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/.exec(color);
+  if (rgb) {
+    return [parseInt(rgb[1], 10), parseInt(rgb[2], 10), parseInt(rgb[3], 10)];
+  }
+
+  if (color.indexOf('var(') === 0 || typeof document === 'undefined' || !document.body) return null;
+
+  const probe = document.createElement('span');
+  probe.style.color = color;
+  if (!probe.style.color) return null;
+  document.body.appendChild(probe);
+  const computed = window.getComputedStyle(probe).color;
+  probe.remove();
+  return computed && computed !== color ? parseColor(computed) : null;
+}
+
+/** A CSS colour as #rrggbb (for colour pickers), or null when it cannot be resolved */
+export function colorToHex(value: string): string | null {
+  const rgb = parseColor(value);
+  return rgb ? `#${rgb.map((c: number) => (c < 16 ? '0' : '') + c.toString(16)).join('')}` : null;
+}
+
+/** WCAG contrast ratio of two colours (1–21), or null when either cannot be resolved */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+
+  const l1 = relativeLuminance(fg);
+  const l2 = relativeLuminance(bg);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Colour pairs of the config that fall below WCAG AA, against the theme's page background
+ */
+export function findContrastIssues(config: INavConfig, slots: IThemeSlots): IConfigWarning[] {
+  const warnings: IConfigWarning[] = [];
+  const background = resolveColor('bodyBackground', slots);
+
+  const check = (key: string, foreground: string, against: string, againstLabel: string, minimum: number): void => {
+    const ratio = contrastRatio(resolveColor(foreground, slots), resolveColor(against, slots));
+    if (ratio !== null && ratio < minimum) {
+      warnings.push({ key, reason: `contrast ${ratio.toFixed(2)}:1 against ${againstLabel} is below WCAG AA ${minimum}:1` });
+    }
+  };
+
+  check('currentSiteColor', config.currentSiteColor, background, 'the page background', TEXT_CONTRAST);
+  check('otherSiteColor', config.otherSiteColor, background, 'the page background', TEXT_CONTRAST);
+
+  if (config.indicator.style === 'none') {
+    check('currentSiteColor', config.currentSiteColor, config.otherSiteColor,
+      'otherSiteColor (the current site is marked by colour only)', NON_TEXT_CONTRAST);
+  } else if (config.indicator.style === 'pill') {
+    check('indicator.pillBackground', config.currentSiteColor, config.indicator.pillBackground, 'currentSiteColor', TEXT_CONTRAST);
+  } else {
+    check('indicator.color', config.indicator.color, background, 'the page background', NON_TEXT_CONTRAST);
+  }
+
+  if (config.activePath.enabled) {
+    check('activePath.currentColor', config.activePath.currentColor, background, 'the page background', TEXT_CONTRAST);
+    check('activePath.ancestorColor', config.activePath.ancestorColor, background, 'the page background', TEXT_CONTRAST);
+  }
+
+  if (config.menuHeadings.enabled) {
+    check('menuHeadings.color', config.menuHeadings.color, background, 'the page background', TEXT_CONTRAST);
+  }
+
+  const states = config.linkStates;
+  if (states.hoverColor) check('linkStates.hoverColor', states.hoverColor, background, 'the page background', TEXT_CONTRAST);
+  if (states.visitedColor) check('linkStates.visitedColor', states.visitedColor, background, 'the page background', TEXT_CONTRAST);
+  if (states.focusColor) check('linkStates.focusColor', states.focusColor, background, 'the page background', NON_TEXT_CONTRAST);
+
+  return warnings;
+}
+
+function relativeLuminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map((channel: number) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
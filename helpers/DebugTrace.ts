@@ -0,0 +1,98 @@
+// helpers/DebugTrace.ts
+import { IConfigWarning } from './ConfigValidator';
+import { IConfigLayerInfo } from './ConfigResolver';
+import { ISelectorMatchCount } from './SelectorRegistry';
+
+/** Query-string switch that turns on the diagnostics panel (e.g., ?hubnavdebug=1) */
+export const DEBUG_QUERY_PARAM = 'hubnavdebug';
+
+/** Passes kept in the timing list */
+const MAX_PASS_TIMINGS = 20;
+
+/** How one nav link was found and classified */
+export interface ILinkTrace {
+  href: string;
+  text: string;
+  /** Selector region and selector that found the link ("" when none matched) */
+  region: string;
+  selector: string;
+  /** Class applied ("" when the link was left unstyled) */
+  className: string;
+  /** Why the link was classified the way it was */
+  reason: string;
+}
+
+/** Duration of one highlight pass */
+export interface IPassTiming {
+  pass: number;
+  /** "page" for full passes, otherwise the number of observed roots */
+  scope: string;
+  links: number;
+  ms: number;
+}
+
+/** Everything the diagnostics panel shows */
+export interface IDebugSnapshot {
+  layers: IConfigLayerInfo[];
+  warnings: IConfigWarning[];
+  configSource: string;
+  configLoadMs: number | null;
+  /** Environment profile applied ("" when none) */
+  profile: string;
+  /** Why the customizer runs (or not) on this site */
+  activation: string;
+  currentSiteKey: string;
+  currentWebKey: string;
+  matchMode: string;
+  renderMode: string;
+  passes: IPassTiming[];
+  selectorMatches: ISelectorMatchCount[];
+  links: ILinkTrace[];
+}
+
+/** True when the page URL carries the debug switch */
+export function isDebugRequested(search: string): boolean {
+  const value = new URLSearchParams(search).get(DEBUG_QUERY_PARAM);
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Collects link traces and pass timings while debugging. Traces are keyed by element
+ * so a link re-classified by a later pass keeps a single, current entry.
+ */
+export class DebugTrace {
+  private _links: Map<Element, ILinkTrace> = new Map<Element, ILinkTrace>();
+  private _passes: IPassTiming[] = [];
+
+  public recordLink(element: Element, trace: ILinkTrace): void {
+    this._links.set(element, trace);
+  }
+
+  public recordPass(timing: IPassTiming): void {
+    this._passes.push(timing);
+    if (this._passes.length > MAX_PASS_TIMINGS) this._passes.shift();
+  }
+
+  /** Traces of links still on the page */
+  public get links(): ILinkTrace[] {
+    const links: ILinkTrace[] = [];
+    this._links.forEach((trace: ILinkTrace, element: Element) => {
+      if (element.isConnected) {
+        links.push(trace);
+      } else {
+        this._links.delete(element);
+      }
+    });
+    return links;
+  }
+
+  public get passes(): IPassTiming[] {
+    return this._passes.slice();
+  }
+
+  /** Forget traces (e.g., after SPA navigation) */
+  public reset(): void {
+    this._links.clear();
+    this._passes = [];
+  }
+}
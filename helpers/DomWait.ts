@@ -0,0 +1,58 @@
+// helpers/DomWait.ts
+
+export interface IStableElementOptions {
+  /** How long the element must go without changes to count as stable (ms) */
+  quietMs: number;
+  /** Longest wait (ms); then resolves with whatever matches, possibly nothing */
+  timeoutMs: number;
+  /** Stops waiting early (e.g., when a newer navigation starts) */
+  signal: AbortSignal;
+}
+
+/**
+ * Wait until an element matching one of `selectors` is on the page and neither it
+ * nor its subtree has changed for `quietMs`. Replacing the element (as SharePoint
+ * does with the header after in-page navigation) counts as a change. Resolves with
+ * the element, or with null when none appeared before the timeout or abort.
+ */
+export function waitForStableElement(selectors: string[], options: IStableElementOptions): Promise<Element | null> {
+  const selector = selectors.join(', ');
+  if (options.signal.aborted) return Promise.resolve(null);
+
+  return new Promise<Element | null>((resolve) => {
+    let quietTimer: number | undefined;
+    let deadline: number | undefined;
+
+    const observer = new MutationObserver((mutations: MutationRecord[]) => {
+      if (mutations.some((mutation: MutationRecord) => touches(mutation, selector))) restartQuiet();
+    });
+
+    const finish = (): void => {
+      observer.disconnect();
+      window.clearTimeout(quietTimer);
+      window.clearTimeout(deadline);
+      options.signal.removeEventListener('abort', finish);
+      resolve(options.signal.aborted ? null : document.querySelector(selector));
+    };
+
+    const restartQuiet = (): void => {
+      window.clearTimeout(quietTimer);
+      quietTimer = document.querySelector(selector) ? window.setTimeout(finish, options.quietMs) : undefined;
+    };
+
+    deadline = window.setTimeout(finish, options.timeoutMs);
+    options.signal.addEventListener('abort', finish);
+    observer.observe(document.body, { childList: true, subtree: true });
+    restartQuiet();
+  });
+}
+
+/** True when a mutation happened inside, or added or removed, an element matching `selector` */
+function touches(mutation: MutationRecord, selector: string): boolean {
+  const target = mutation.target;
+  if (target instanceof Element && target.closest(selector)) return true;
+
+  const matches = (node: Node): boolean =>
+    node instanceof Element && (node.matches(selector) || !!node.querySelector(selector));
+  return Array.prototype.some.call(mutation.addedNodes, matches) || Array.prototype.some.call(mutation.removedNodes, matches);
+}
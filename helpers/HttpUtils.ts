@@ -0,0 +1,32 @@
+// helpers/HttpUtils.ts
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+
+/**
+ * GET through SPHttpClient, aborting after `timeoutMs` or when `signal` aborts
+ */
+export async function getWithTimeout(
+  spHttpClient: SPHttpClient,
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  headers?: { [name: string]: string }
+): Promise<SPHttpClientResponse> {
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort();
+  const timer = window.setTimeout(onAbort, timeoutMs);
+
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener('abort', onAbort);
+  }
+
+  try {
+    return await spHttpClient.get(url, SPHttpClient.configurations.v1, {
+      headers,
+      signal: controller.signal
+    });
+  } finally {
+    window.clearTimeout(timer);
+    if (signal) signal.removeEventListener('abort', onAbort);
+  }
+}
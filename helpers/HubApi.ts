@@ -0,0 +1,212 @@
+// helpers/HubApi.ts
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { StorageCache } from './StorageCache';
+import { getWithTimeout } from './HttpUtils';
+
+export interface IHubApiOptions {
+  /** Cache for results; omit to always fetch */
+  cache?: StorageCache;
+  /** How long a cached result is used before it is fetched again (ms) */
+  ttlMs: number;
+  /** Request timeout (ms) */
+  timeoutMs: number;
+  /** Aborts the request (e.g., on dispose) */
+  signal?: AbortSignal;
+}
+
+/** Failed hub request */
+export class HubApiError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HubApiError';
+    this.status = status;
+  }
+}
+
+/** A hub site */
+export interface IHubSite {
+  /** Hub site id, lower case without braces */
+  id: string;
+  title: string;
+  /** Absolute URL of the hub site */
+  url: string;
+  /** Id of the hub this hub is associated with ("" for top-level hubs) */
+  parentHubSiteId: string;
+}
+
+/** A hub with the hub it is associated with and the other hubs under that parent */
+export interface IHubFamily {
+  current: IHubSite;
+  parent: IHubSite | null;
+  /** Other hubs associated with the same parent, by title */
+  siblings: IHubSite[];
+}
+
+const EMPTY_GUID = '00000000-0000-0000-0000-000000000000';
+
+/** Most associated sites read from search; hubs are far below this in practice */
+const MAX_ASSOCIATED_SITES = 500;
+
+/** Search result cell */
+interface ISearchCell {
+  Key: string;
+  Value: string | null;
+}
+
+/**
+ * URLs of the site collections associated with a hub (including the hub site),
+ * found through search by their DepartmentId. Search results can lag a new
+ * association by a few minutes.
+ */
+export async function getHubAssociatedSiteUrls(
+  webUrl: string,
+  hubSiteId: string,
+  spHttpClient: SPHttpClient,
+  options: IHubApiOptions
+): Promise<string[]> {
+  const id = hubSiteId.replace(/[{}]/g, '');
+  const cacheKey = `hubsites:${id.toLowerCase()}`;
+  const cached = options.cache ? options.cache.get<string[]>(cacheKey) : undefined;
+
+  if (cached && StorageCache.isFresh(cached, options.ttlMs)) {
+    return cached.value;
+  }
+
+  const query = `DepartmentId:{${id}} contentclass:STS_Site`;
+  const url = `${webUrl.replace(/\/$/, '')}/_api/search/query?querytext='${encodeURIComponent(query)}'` +
+    `&selectproperties='Path'&rowlimit=${MAX_ASSOCIATED_SITES}&trimduplicates=false`;
+
+  try {
+    const json = await getJson<{ PrimaryQueryResult?: { RelevantResults?: { Table?: { Rows?: { Cells: ISearchCell[] }[] } } } }>(
+      spHttpClient, url, options);
+    const rows = json.PrimaryQueryResult?.RelevantResults?.Table?.Rows ?? [];
+    const urls: string[] = [];
+    rows.forEach((row: { Cells: ISearchCell[] }) => {
+      row.Cells.forEach((cell: ISearchCell) => {
+        if (cell.Key === 'Path' && cell.Value) urls.push(cell.Value);
+      });
+    });
+
+    if (options.cache) options.cache.set(cacheKey, urls);
+    return urls;
+  } catch (error) {
+    // Prefer a stale list over none
+    if (cached) return cached.value;
+    throw error;
+  }
+}
+
+/**
+ * The current site's hub with its parent and sibling hubs. The current hub comes
+ * from the web's HubSiteData, which every reader can see; parent and siblings come
+ * from /_api/HubSites, which lists only the hubs the user can access.
+ */
+export async function getHubFamily(
+  webUrl: string,
+  hubSiteId: string,
+  spHttpClient: SPHttpClient,
+  options: IHubApiOptions
+): Promise<IHubFamily> {
+  const id = normalizeHubId(hubSiteId);
+  const cacheKey = `hubfamily:${id}`;
+  const cached = options.cache ? options.cache.get<IHubFamily>(cacheKey) : undefined;
+
+  if (cached && StorageCache.isFresh(cached, options.ttlMs)) {
+    return cached.value;
+  }
+
+  const baseUrl = webUrl.replace(/\/$/, '');
+  try {
+    const [data, hubs] = await Promise.all([
+      getJson<{ value?: string }>(spHttpClient, `${baseUrl}/_api/web/HubSiteData(false)`, options),
+      getJson<{ value?: IHubSitesRow[] }>(spHttpClient, `${baseUrl}/_api/HubSites?$select=ID,Title,SiteUrl,ParentHubSiteId`, options)
+    ]);
+
+    const family = buildHubFamily(id, parseHubSiteData(data.value), (hubs.value ?? []).map(toHubSite));
+    if (options.cache) options.cache.set(cacheKey, family);
+    return family;
+  } catch (error) {
+    // Prefer a stale family over none
+    if (cached) return cached.value;
+    throw error;
+  }
+}
+
+/** Row of /_api/HubSites */
+interface IHubSitesRow {
+  ID: string;
+  Title: string;
+  SiteUrl: string;
+  ParentHubSiteId: string | null;
+}
+
+/** The fields of HubSiteData used here (SharePoint returns it as a JSON string) */
+interface IHubSiteData {
+  name?: string;
+  url?: string;
+  parentHubSiteId?: string | null;
+}
+
+function parseHubSiteData(value: string | undefined): IHubSiteData {
+  if (!value) throw new HubApiError('Site is not associated with a hub', 404);
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new HubApiError('HubSiteData is not valid JSON', 200);
+  }
+}
+
+function buildHubFamily(id: string, data: IHubSiteData, hubs: IHubSite[]): IHubFamily {
+  const listed = hubs.filter((hub: IHubSite) => hub.id === id)[0];
+  const current: IHubSite = {
+    id,
+    title: data.name || (listed ? listed.title : ''),
+    url: data.url || (listed ? listed.url : ''),
+    parentHubSiteId: normalizeHubId(data.parentHubSiteId || (listed ? listed.parentHubSiteId : ''))
+  };
+
+  const parentId = current.parentHubSiteId;
+  const parent = parentId ? hubs.filter((hub: IHubSite) => hub.id === parentId)[0] || null : null;
+  const siblings = parentId
+    ? hubs
+      .filter((hub: IHubSite) => hub.parentHubSiteId === parentId && hub.id !== id)
+      .sort((a: IHubSite, b: IHubSite) => a.title.localeCompare(b.title))
+    : [];
+
+  return { current, parent, siblings };
+}
+
+function toHubSite(row: IHubSitesRow): IHubSite {
+  return {
+    id: normalizeHubId(row.ID),
+    title: row.Title,
+    url: row.SiteUrl,
+    parentHubSiteId: normalizeHubId(row.ParentHubSiteId)
+  };
+}
+
+function normalizeHubId(id: string | null | undefined): string {
+  const normalized = (id || '').replace(/[{}]/g, '').toLowerCase();
+  return normalized === EMPTY_GUID ? '' : normalized;
+}
+
+async function getJson<T>(spHttpClient: SPHttpClient, url: string, options: IHubApiOptions): Promise<T> {
+  let res: SPHttpClientResponse;
+  try {
+    res = await getWithTimeout(spHttpClient, url, options.timeoutMs, options.signal);
+  } catch (error) {
+    throw new HubApiError(`Hub request failed: ${error}`, 0);
+  }
+
+  if (!res.ok) {
+    throw new HubApiError(`Hub request returned ${res.status} ${res.statusText}`, res.status);
+  }
+
+  try {
+    return await res.json();
+  } catch (error) {
+    throw new HubApiError('Hub response is not valid JSON', res.status);
+  }
+}
@@ -0,0 +1,162 @@
+// helpers/NavApi.ts
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { ICacheEntry, StorageCache } from './StorageCache';
+import { getWithTimeout } from './HttpUtils';
+
+/** A hub navigation node */
+export interface INavNode {
+  /** SharePoint's node key, or the node's position ("path:0.2") when it has none */
+  Id: string;
+  Title: string;
+  /** Link target; "" for label-only nodes */
+  Url: string;
+  /** Link points outside the hub's host */
+  IsExternal: boolean;
+  /** Audience (group) ids the node is targeted to; empty = everyone */
+  AudienceIds: string[];
+  Children: INavNode[];
+}
+
+/** Navigation tree of one hub with SharePoint's version stamp */
+export interface INavTree {
+  nodes: INavNode[];
+  version: string;
+}
+
+export interface INavTreeOptions {
+  /** Cache for trees, keyed by hub URL; omit to always fetch */
+  cache?: StorageCache;
+  /** How long a cached tree is used without checking for a newer version (ms) */
+  ttlMs: number;
+  /** Request timeout (ms) */
+  timeoutMs: number;
+  /** Aborts the request (e.g., on dispose) */
+  signal?: AbortSignal;
+  /**
+   * UI culture to read node titles in (e.g., "sv-SE"). Sent as Accept-Language, so
+   * SharePoint returns the multilingual translation and the default language title
+   * for nodes without one.
+   */
+  language?: string;
+  /** Called when a background refresh finds a tree with a different version */
+  onUpdate?: (tree: INavTree) => void;
+}
+
+/** Failed navigation request */
+export class NavApiError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'NavApiError';
+    this.status = status;
+  }
+}
+
+/** Key of the top navigation bar in the SharePoint navigation provider */
+const TOP_NAV_MENU_NODE_KEY = 1002;
+
+/** SimpleUrl SharePoint stores for label-only headings */
+const LINKLESS_HEADER_URL = 'http://linkless.header/';
+
+/** Levels requested from MenuState; SharePoint stores at most three */
+const MAX_NAV_DEPTH = 10;
+
+/** Raw MenuState node */
+interface IMenuStateNode {
+  Key: string;
+  Title: string;
+  SimpleUrl: string;
+  IsHidden: boolean;
+  IsDeleted: boolean;
+  AudienceIds: string[] | null;
+  Nodes: IMenuStateNode[] | null;
+}
+
+/**
+ * Get a hub's full navigation tree. A fresh cached tree is returned as-is; a stale
+ * one is returned immediately and refreshed in the background, calling `onUpdate`
+ * only when the version stamp changed. Without a cached tree the request errors propagate.
+ */
+export async function getNavTree(hubUrl: string, spHttpClient: SPHttpClient, options: INavTreeOptions): Promise<INavTree> {
+  const cacheKey = `navtree:${options.language ? `${options.language.toLowerCase()}:` : ''}${hubUrl.toLowerCase()}`;
+  const cached: ICacheEntry<INavTree> | undefined = options.cache ? options.cache.get<INavTree>(cacheKey) : undefined;
+
+  if (cached && StorageCache.isFresh(cached, options.ttlMs)) {
+    return cached.value;
+  }
+
+  if (cached) {
+    fetchNavTree(hubUrl, spHttpClient, options)
+      .then((tree: INavTree) => {
+        if (options.cache) options.cache.set(cacheKey, tree);
+        if (tree.version !== cached.value.version && options.onUpdate) {
+          options.onUpdate(tree);
+        }
+      })
+      .catch(() => {
+        // Keep serving the cached tree
+      });
+    return cached.value;
+  }
+
+  const tree = await fetchNavTree(hubUrl, spHttpClient, options);
+  if (options.cache) options.cache.set(cacheKey, tree);
+  return tree;
+}
+
+/**
+ * Fetch the whole top navigation tree of a site in one MenuState request
+ */
+export async function fetchNavTree(hubUrl: string, spHttpClient: SPHttpClient, options: INavTreeOptions): Promise<INavTree> {
+  const baseUrl = hubUrl.replace(/\/$/, '');
+  const url = `${baseUrl}/_api/navigation/MenuState?menuNodeKey='${TOP_NAV_MENU_NODE_KEY}'&depth=${MAX_NAV_DEPTH}&mapProviderName='SPNavigationProvider'`;
+
+  let res: SPHttpClientResponse;
+  try {
+    const headers: { [name: string]: string } = options.language ? { 'Accept-Language': options.language } : {};
+    res = await getWithTimeout(spHttpClient, url, options.timeoutMs, options.signal, headers);
+  } catch (error) {
+    throw new NavApiError(`Navigation request failed: ${error}`, 0);
+  }
+
+  if (!res.ok) {
+    throw new NavApiError(`Navigation request returned ${res.status} ${res.statusText}`, res.status);
+  }
+
+  let json: { Nodes?: IMenuStateNode[] | null; Version?: number | string };
+  try {
+    json = await res.json();
+  } catch (error) {
+    throw new NavApiError('Navigation response is not valid JSON', res.status);
+  }
+
+  const hubHost = new URL(`${baseUrl}/`).host.toLowerCase();
+  return {
+    nodes: toNavNodes(json.Nodes, baseUrl, hubHost, 'path:'),
+    version: json.Version !== undefined ? `${json.Version}` : ''
+  };
+}
+
+/** `path` is the position prefix for nodes without a key */
+function toNavNodes(nodes: IMenuStateNode[] | null | undefined, baseUrl: string, hubHost: string, path: string): INavNode[] {
+  return (nodes ?? [])
+    .filter((n: IMenuStateNode) => !n.IsHidden && !n.IsDeleted)
+    .map((n: IMenuStateNode, index: number) => ({
+      Id: n.Key ? `${n.Key}` : `${path}${index}`,
+      Title: n.Title,
+      Url: n.SimpleUrl === LINKLESS_HEADER_URL ? '' : n.SimpleUrl || '',
+      IsExternal: n.SimpleUrl !== LINKLESS_HEADER_URL && isExternalUrl(n.SimpleUrl, baseUrl, hubHost),
+      AudienceIds: n.AudienceIds ?? [],
+      Children: toNavNodes(n.Nodes, baseUrl, hubHost, `${path}${index}.`)
+    }));
+}
+
+function isExternalUrl(url: string, baseUrl: string, hubHost: string): boolean {
+  if (!url) return false;
+  try {
+    return new URL(url, `${baseUrl}/`).host.toLowerCase() !== hubHost;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,165 @@
+// helpers/NavObserver.ts
+
+export interface INavObserverOptions {
+  /** Selectors for the hub nav container; the first match is observed */
+  containerSelectors: string[];
+  /**
+   * Longest wait for the hub nav container to appear (ms). Pages without one stop
+   * watching the body then; refresh() starts a new wait (e.g., after navigation).
+   */
+  containerWaitMs: number;
+  /** Selectors for popup layers (mega menus) that SharePoint adds to the body */
+  layerSelectors: string[];
+  /** Processes a batch of added elements; called at most once per animation frame */
+  onNodesAdded: (roots: Element[]) => void;
+}
+
+/**
+ * Watches only the hub nav container and callout layers instead of the whole body
+ * subtree. Added elements are collected and handed over once per animation frame.
+ */
+export class NavObserver {
+  private _options: INavObserverOptions;
+  /**
+   * Watches the hub nav container (subtree). Separate from the layer observer so a
+   * replaced container can be dropped: MutationObserver cannot unobserve one target.
+   */
+  private _containerObserver: MutationObserver;
+  /** Watches open layers (subtree) */
+  private _scopedObserver: MutationObserver;
+  /** Watches direct children of the body for new layers */
+  private _layerObserver: MutationObserver;
+  /** Watches the body subtree only until the hub nav container shows up */
+  private _bootstrapObserver: MutationObserver | null = null;
+  private _bootstrapTimer: number | undefined;
+  private _container: Element | null = null;
+  private _pending: Element[] = [];
+  private _frame: number | null = null;
+  private _batchCount: number = 0;
+  private _nodeCount: number = 0;
+
+  constructor(options: INavObserverOptions) {
+    this._options = options;
+    this._containerObserver = new MutationObserver((mutations: MutationRecord[]) => this._collect(mutations));
+    this._scopedObserver = new MutationObserver((mutations: MutationRecord[]) => this._collect(mutations));
+    this._layerObserver = new MutationObserver((mutations: MutationRecord[]) => {
+      mutations.forEach((mutation: MutationRecord) => {
+        mutation.addedNodes.forEach((node: Node) => {
+          if (node instanceof Element && this._isLayer(node)) this._watchLayer(node);
+        });
+      });
+    });
+  }
+
+  /** Number of batches handed to `onNodesAdded` so far */
+  public get batchCount(): number {
+    return this._batchCount;
+  }
+
+  /** Number of root elements handed to `onNodesAdded` so far */
+  public get nodeCount(): number {
+    return this._nodeCount;
+  }
+
+  public start(): void {
+    this._layerObserver.observe(document.body, { childList: true });
+    document.querySelectorAll(this._options.layerSelectors.join(', ')).forEach((layer: Element) => this._watchLayer(layer));
+    this.refresh();
+  }
+
+  /**
+   * Re-locate the hub nav container (e.g., after SPA navigation replaced the header)
+   */
+  public refresh(): void {
+    const container = document.querySelector(this._options.containerSelectors.join(', '));
+
+    if (!container) {
+      this._waitForContainer();
+      return;
+    }
+
+    if (container !== this._container) {
+      this._container = container;
+      this._containerObserver.disconnect();
+      this._containerObserver.observe(container, { childList: true, subtree: true });
+      this._enqueue(container);
+    }
+  }
+
+  public stop(): void {
+    this._containerObserver.disconnect();
+    this._scopedObserver.disconnect();
+    this._layerObserver.disconnect();
+    this._stopWaiting();
+    if (this._frame !== null) {
+      window.cancelAnimationFrame(this._frame);
+      this._frame = null;
+    }
+    this._pending = [];
+    this._container = null;
+  }
+
+  private _waitForContainer(): void {
+    if (this._bootstrapObserver) return;
+
+    this._bootstrapObserver = new MutationObserver(() => {
+      if (!document.querySelector(this._options.containerSelectors.join(', '))) return;
+      this._stopWaiting();
+      this.refresh();
+    });
+    this._bootstrapObserver.observe(document.body, { childList: true, subtree: true });
+    this._bootstrapTimer = window.setTimeout(() => this._stopWaiting(), this._options.containerWaitMs);
+  }
+
+  private _stopWaiting(): void {
+    window.clearTimeout(this._bootstrapTimer);
+    this._bootstrapTimer = undefined;
+    if (this._bootstrapObserver) {
+      this._bootstrapObserver.disconnect();
+      this._bootstrapObserver = null;
+    }
+  }
+
+  private _isLayer(element: Element): boolean {
+    return this._options.layerSelectors.some((selector: string) =>
+      element.matches(selector) || !!element.querySelector(selector));
+  }
+
+  private _watchLayer(layer: Element): void {
+    this._scopedObserver.observe(layer, { childList: true, subtree: true });
+    this._enqueue(layer);
+  }
+
+  private _collect(mutations: MutationRecord[]): void {
+    mutations.forEach((mutation: MutationRecord) => {
+      mutation.addedNodes.forEach((node: Node) => {
+        if (node instanceof Element) this._enqueue(node);
+      });
+    });
+  }
+
+  private _enqueue(element: Element): void {
+    this._pending.push(element);
+    if (this._frame === null) {
+      this._frame = window.requestAnimationFrame(() => this._flush());
+    }
+  }
+
+  private _flush(): void {
+    this._frame = null;
+    const pending = this._pending;
+    this._pending = [];
+
+    // Skip detached elements and elements already covered by another root in the batch
+    const roots = pending.filter((element: Element, index: number) =>
+      element.isConnected &&
+      pending.indexOf(element) === index &&
+      !pending.some((other: Element) => other !== element && other.contains(element)));
+
+    if (roots.length === 0) return;
+
+    this._batchCount++;
+    this._nodeCount += roots.length;
+    this._options.onNodesAdded(roots);
+  }
+}
@@ -0,0 +1,227 @@
+// helpers/NavStyles.ts
+import { INavConfig, IStyleRule } from '../INavConfig';
+import { buildStyleRulesCss } from './StyleRules';
+import { IThemeSlots, themeSlotDeclarations, toCssColor } from './ThemeTokens';
+
+/** Both highlight classes, for state rules that apply to every nav link */
+const LINK_CLASSES = ['hub-nav-current-site', 'hub-nav-other-site'];
+
+/** Classes that mark the current location and get the indicator */
+const CURRENT_CLASSES = ['hub-nav-current-site', 'hub-nav-active-current'];
+
+/**
+ * Build the customizer's stylesheet. Config values are exposed as CSS custom
+ * properties on :root (theme slots as var() references) and the rules read those.
+ * `hideSelectors` are hidden entirely (the out-of-box nav in "replace" mode).
+ */
+export function buildNavCss(config: INavConfig, slots: IThemeSlots, hideSelectors: string[]): string {
+  const color = (value: string): string => toCssColor(value, slots);
+  const states = config.linkStates;
+
+  const colors = [
+    config.currentSiteColor, config.otherSiteColor, config.indicator.color, config.indicator.pillBackground,
+    config.menuHeadings.color, config.menuHeadings.hoverColor, config.activePath.currentColor, config.activePath.ancestorColor
+  ];
+  [states.hoverColor, states.focusColor, states.visitedColor].forEach((value: string | undefined) => {
+    if (value) colors.push(value);
+  });
+  config.styleRules.forEach((rule: IStyleRule) => {
+    if (rule.style && rule.style.color) colors.push(rule.style.color);
+    if (rule.style && rule.style.backgroundColor) colors.push(rule.style.backgroundColor);
+  });
+
+  const properties = themeSlotDeclarations(colors, slots).concat([
+    `--hubnav-current-color: ${color(config.currentSiteColor)};`,
+    `--hubnav-current-font-weight: ${config.currentSiteFontWeight};`,
+    `--hubnav-other-color: ${color(config.otherSiteColor)};`,
+    `--hubnav-other-font-weight: ${config.otherSiteFontWeight};`,
+    `--hubnav-indicator-color: ${color(config.indicator.color)};`,
+    `--hubnav-pill-background: ${color(config.indicator.pillBackground)};`,
+    `--hubnav-active-color: ${color(config.activePath.currentColor)};`,
+    `--hubnav-active-font-weight: ${config.activePath.currentFontWeight};`,
+    `--hubnav-ancestor-color: ${color(config.activePath.ancestorColor)};`,
+    `--hubnav-ancestor-font-weight: ${config.activePath.ancestorFontWeight};`
+  ]);
+  if (states.hoverColor) properties.push(`--hubnav-hover-color: ${color(states.hoverColor)};`);
+  if (states.focusColor) properties.push(`--hubnav-focus-color: ${color(states.focusColor)};`);
+  if (states.visitedColor) properties.push(`--hubnav-visited-color: ${color(states.visitedColor)};`);
+
+  const headings = config.menuHeadings;
+  const menuHeadingStyles = headings.enabled ? `
+    .hub-nav-menu-heading,
+    .hub-nav-menu-heading .ms-HorizontalNavItem-linkText {
+      color: ${color(headings.color)} !important;
+      font-weight: ${headings.fontWeight} !important;
+    }
+
+    .hub-nav-menu-heading:hover,
+    .hub-nav-menu-heading:hover .ms-HorizontalNavItem-linkText {
+      color: ${color(headings.hoverColor)} !important;
+    }
+  ` : '';
+
+  return `
+    :root {
+      ${properties.join('\n      ')}
+    }
+
+    ${menuHeadingStyles}
+
+    ${buildStyleRulesCss(config.styleRules, color)}
+
+    .hub-nav-current-site,
+    .hub-nav-current-site span,
+    .hub-nav-current-site button,
+    a.hub-nav-current-site {
+      color: var(--hubnav-current-color) !important;
+      font-weight: var(--hubnav-current-font-weight) !important;
+    }
+
+    .hub-nav-other-site,
+    .hub-nav-other-site span,
+    .hub-nav-other-site button,
+    a.hub-nav-other-site {
+      color: var(--hubnav-other-color) !important;
+      font-weight: var(--hubnav-other-font-weight) !important;
+    }
+
+    .hub-nav-active-ancestor,
+    .hub-nav-active-ancestor span,
+    .hub-nav-active-ancestor .ms-HorizontalNavItem-linkText {
+      color: var(--hubnav-ancestor-color) !important;
+      font-weight: var(--hubnav-ancestor-font-weight) !important;
+    }
+
+    .hub-nav-active-current,
+    .hub-nav-active-current span,
+    .hub-nav-active-current button,
+    a.hub-nav-active-current {
+      color: var(--hubnav-active-color) !important;
+      font-weight: var(--hubnav-active-font-weight) !important;
+    }
+
+    .hub-nav-sr-only {
+      position: absolute !important;
+      width: 1px !important;
+      height: 1px !important;
+      margin: -1px !important;
+      padding: 0 !important;
+      overflow: hidden !important;
+      clip: rect(0, 0, 0, 0) !important;
+      white-space: nowrap !important;
+      border: 0 !important;
+    }
+
+    ${indicatorCss(config)}
+
+    ${linkStatesCss(config)}
+
+    @media (forced-colors: active) {
+      ${currentSelector('')} {
+        text-decoration: underline !important;
+        text-decoration-thickness: 3px !important;
+        text-underline-offset: 4px;
+      }
+
+      ${currentSelector('::before')} {
+        color: LinkText !important;
+      }
+
+      ${LINK_CLASSES.map((c: string) => `a.${c}:focus-visible`).join(',\n      ')} {
+        outline: 2px solid Highlight !important;
+      }
+    }
+
+    ${hideSelectors.length > 0 ? `${hideSelectors.join(', ')} { display: none !important; }` : ''}
+  `;
+}
+
+function indicatorCss(config: INavConfig): string {
+  switch (config.indicator.style) {
+    case 'underline':
+      return `
+        ${currentSelector('')} {
+          text-decoration: underline !important;
+          text-decoration-color: var(--hubnav-indicator-color) !important;
+          text-decoration-thickness: 2px !important;
+          text-underline-offset: 4px;
+        }
+      `;
+    case 'bar':
+      return `
+        ${currentSelector('')} {
+          box-shadow: inset 0 -3px 0 0 var(--hubnav-indicator-color) !important;
+        }
+      `;
+    case 'pill':
+      return `
+        ${currentSelector('')} {
+          background-color: var(--hubnav-pill-background) !important;
+          border-radius: 999px;
+          padding-left: 10px !important;
+          padding-right: 10px !important;
+        }
+      `;
+    case 'icon':
+      return `
+        ${currentSelector('::before')} {
+          content: "${cssString(config.indicator.icon)}";
+          color: var(--hubnav-indicator-color);
+          margin-right: 4px;
+        }
+      `;
+    default:
+      return '';
+  }
+}
+
+function linkStatesCss(config: INavConfig): string {
+  const states = config.linkStates;
+  const css: string[] = [];
+
+  if (states.hoverColor) {
+    css.push(`
+      ${LINK_CLASSES.map((c: string) => `a.${c}:hover, a.${c}:hover span`).join(',\n      ')} {
+        color: var(--hubnav-hover-color) !important;
+      }
+    `);
+  }
+  if (states.focusColor) {
+    css.push(`
+      ${LINK_CLASSES.map((c: string) => `a.${c}:focus-visible`).join(',\n      ')} {
+        outline: 2px solid var(--hubnav-focus-color) !important;
+        outline-offset: 2px;
+      }
+    `);
+  }
+  if (states.visitedColor) {
+    css.push(`
+      a.hub-nav-other-site:visited,
+      a.hub-nav-other-site:visited span {
+        color: var(--hubnav-visited-color) !important;
+      }
+    `);
+  }
+  return css.join('');
+}
+
+/** Selector for every current-location class, with an optional pseudo-element */
+function currentSelector(pseudo: string): string {
+  return CURRENT_CLASSES.map((c: string) => `.${c}${pseudo}`).join(', ');
+}
+
+/** Escape text for a CSS string as code point escapes, so no character can end the string */
+function cssString(value: string): string {
+  const escaped: string[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    const next = value.charCodeAt(i + 1);
+    // A surrogate pair is one character; CSS escapes it by its full code point
+    if (code >= 0xd800 && code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff) {
+      code = (code - 0xd800) * 0x400 + (next - 0xdc00) + 0x10000;
+      i++;
+    }
+    escaped.push(`\\${code.toString(16)} `);
+  }
+  return escaped.join('');
+}
@@ -0,0 +1,46 @@
+// helpers/Patterns.ts
+
+/** "/body/flags" is a regular expression; anything else is a glob */
+const REGEX_LITERAL = /^\/(.+)\/([gimsuy]*)$/;
+
+/**
+ * Compile a config pattern. Globs are case-insensitive and match the whole value:
+ * `*` matches any run of characters and `?` a single character. Regex literals keep
+ * their flags, so they are case-sensitive unless they set "i".
+ * Throws for an invalid regular expression.
+ */
+export function compilePattern(pattern: string): RegExp {
+  const literal = REGEX_LITERAL.exec(pattern);
+  if (literal) {
+    return new RegExp(literal[1], literal[2].replace('g', ''));
+  }
+
+  const source = pattern
+    .split('')
+    .map((char: string) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Test a value against a pattern; invalid patterns never match */
+export function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return compilePattern(pattern).test(value);
+  } catch (error) {
+    return false;
+  }
+}
+
+/** Reason a pattern cannot be compiled, or empty when it is valid */
+export function patternError(pattern: string): string {
+  try {
+    compilePattern(pattern);
+    return '';
+  } catch (error) {
+    return `${error}`;
+  }
+}
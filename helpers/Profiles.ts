@@ -0,0 +1,27 @@
+// helpers/Profiles.ts
+import { IEnvironmentProfile } from '../INavConfig';
+import { matchesPattern } from './Patterns';
+
+/** Facts about the current site that profiles are selected by */
+export interface IProfileContext {
+  /** Tenant host (e.g., "contoso.sharepoint.com") */
+  host: string;
+  /** Server-relative URL of the current web (e.g., "/sites/uat-int-hr") */
+  serverRelativeUrl: string;
+}
+
+/**
+ * The first profile whose match conditions all hold for the current site
+ */
+export function selectProfile(profiles: IEnvironmentProfile[], context: IProfileContext): IEnvironmentProfile | undefined {
+  // Original case, so regex literals ignore case only with the "i" flag
+  const url = context.serverRelativeUrl.replace(/\/$/, '') || '/';
+  for (let i = 0; i < profiles.length; i++) {
+    const match = profiles[i].match;
+    if ((match.host === undefined || matchesPattern(match.host, context.host))
+      && (match.url === undefined || matchesPattern(match.url, url))) {
+      return profiles[i];
+    }
+  }
+  return undefined;
+}
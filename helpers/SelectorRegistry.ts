@@ -0,0 +1,101 @@
+// helpers/SelectorRegistry.ts
+import { ISelectorConfig, SelectorRegion } from '../INavConfig';
+
+/** Link selectors per navigation region */
+export type SelectorSet = { [R in SelectorRegion]: string[] };
+
+/** How many elements one selector matched */
+export interface ISelectorMatchCount {
+  region: SelectorRegion;
+  selector: string;
+  count: number;
+}
+
+export const SELECTOR_REGIONS: SelectorRegion[] = ['hubNav', 'megaMenu', 'siteHeader'];
+
+/** Built-in link selectors; config can add to or remove from each region */
+export const DEFAULT_SELECTORS: SelectorSet = {
+  hubNav: [
+    '[data-automationid="HubNav"] a',
+    '[class*="hubNav"] a',
+    '[class*="HubNav"] a',
+    '[class*="topNav"] a',
+    '[class*="TopNav"] a'
+  ],
+  megaMenu: [
+    '[class*="megaMenu"] a',
+    '[class*="MegaMenu"] a'
+  ],
+  siteHeader: [
+    '[class*="CompositeHeader"] a',
+    'nav a[href*="/sites/"]',
+    '[role="navigation"] a[href*="/sites/"]'
+  ]
+};
+
+/**
+ * Apply config additions and removals to the default selectors
+ */
+export function resolveSelectors(config: ISelectorConfig): SelectorSet {
+  const resolved = {} as SelectorSet;
+  SELECTOR_REGIONS.forEach((region: SelectorRegion) => {
+    const overrides = config[region];
+    const selectors = DEFAULT_SELECTORS[region].filter((s: string) => overrides.remove.indexOf(s) === -1);
+    overrides.add.forEach((s: string) => {
+      if (selectors.indexOf(s) === -1) selectors.push(s);
+    });
+    resolved[region] = selectors;
+  });
+  return resolved;
+}
+
+/** Every link selector across regions */
+export function allSelectors(set: SelectorSet): string[] {
+  const all: string[] = [];
+  SELECTOR_REGIONS.forEach((region: SelectorRegion) => {
+    set[region].forEach((s: string) => {
+      if (all.indexOf(s) === -1) all.push(s);
+    });
+  });
+  return all;
+}
+
+/**
+ * Count the elements each selector matches on the page
+ */
+export function countSelectorMatches(set: SelectorSet): ISelectorMatchCount[] {
+  const counts: ISelectorMatchCount[] = [];
+  SELECTOR_REGIONS.forEach((region: SelectorRegion) => {
+    set[region].forEach((selector: string) => {
+      let count = 0;
+      try {
+        count = document.querySelectorAll(selector).length;
+      } catch (error) {
+        count = 0;
+      }
+      counts.push({ region, selector, count });
+    });
+  });
+  return counts;
+}
+
+/** True when the string is a selector the browser accepts */
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/** First region and selector in the set that the element matches */
+export function findMatchingSelector(element: Element, set: SelectorSet): { region: SelectorRegion; selector: string } | undefined {
+  for (let r = 0; r < SELECTOR_REGIONS.length; r++) {
+    const region = SELECTOR_REGIONS[r];
+    for (let i = 0; i < set[region].length; i++) {
+      if (element.matches(set[region][i])) return { region, selector: set[region][i] };
+    }
+  }
+  return undefined;
+}
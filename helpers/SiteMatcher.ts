@@ -0,0 +1,244 @@
+// helpers/SiteMatcher.ts
+import { SiteMatchMode } from '../INavConfig';
+
+/** Current location that links are compared against */
+export interface ISiteMatchContext {
+  /** Absolute URL of the current web (pageContext.web.absoluteUrl) */
+  webAbsoluteUrl: string;
+  /** Absolute URL of the current site collection (pageContext.site.absoluteUrl) */
+  siteAbsoluteUrl: string;
+  /** Server-relative URL of the current page (e.g., window.location.pathname) */
+  pageServerRelativeUrl: string;
+}
+
+/** Matching options, usually taken from INavConfig */
+export interface ISiteMatcherOptions {
+  matchMode: SiteMatchMode;
+  managedPaths: string[];
+  hostAliases: string[];
+}
+
+/** Outcome of matching a single link */
+export interface ISiteMatchResult {
+  /** Link points at the current site, web or page (depending on match mode) */
+  isCurrent: boolean;
+  /** Link resolves to a location on the current tenant host (or one of its aliases) */
+  isSharePointSite: boolean;
+  /** Normalised site collection key (host + path), empty when unresolvable */
+  siteKey: string;
+  /** Normalised web key (longest known web prefix), empty when unresolvable */
+  webKey: string;
+  /** Short description of why the link was classified this way */
+  reason: string;
+}
+
+/** Normalised host and lower-case, decoded path without trailing slash ("" for root) */
+interface IParsedUrl {
+  host: string;
+  path: string;
+}
+
+/** Path segments that never start a subweb */
+const NON_WEB_SEGMENTS = ['_api', '_layouts', 'forms', 'lists', 'pages', 'shared documents', 'siteassets', 'sitepages'];
+
+/**
+ * Resolves navigation links against the current page context and decides
+ * whether they point at the current site collection, web or page.
+ * Has no SPFx dependencies so it can be exercised on its own.
+ */
+export class SiteMatcher {
+  private _baseUrl: string;
+  private _host: string;
+  private _hostAliases: string[];
+  private _managedPaths: string[];
+  private _matchMode: SiteMatchMode;
+  private _currentSiteKey: string;
+  private _currentWebKey: string;
+  private _currentPageKey: string;
+  private _webKeys: string[] = [];
+
+  constructor(context: ISiteMatchContext, options: ISiteMatcherOptions) {
+    this._baseUrl = context.webAbsoluteUrl.replace(/\/?$/, '/');
+    this._matchMode = options.matchMode;
+    this._managedPaths = options.managedPaths.map((p: string) => p.replace(/^\/+|\/+$/g, '').toLowerCase());
+
+    const web = this._parse(context.webAbsoluteUrl);
+    this._host = web ? web.host : '';
+    this._hostAliases = options.hostAliases.map((h: string) => h.toLowerCase());
+
+    const site = this._parse(context.siteAbsoluteUrl);
+    this._currentSiteKey = site ? this._key(site) : '';
+    this._currentWebKey = web ? this._key(web) : '';
+
+    const page = this._parse(context.pageServerRelativeUrl);
+    this._currentPageKey = page ? this._key(page) : '';
+
+    this._addWebKey(this._currentSiteKey);
+    this._addWebKey(this._currentWebKey);
+  }
+
+  /** Key of the current site collection (e.g., "contoso.sharepoint.com/sites/hr") */
+  public get currentSiteKey(): string {
+    return this._currentSiteKey;
+  }
+
+  /** Key of the current web, used in "web" match mode */
+  public get currentWebKey(): string {
+    return this._currentWebKey;
+  }
+
+  /**
+   * Register URLs that are known to be web roots (typically the hub nav targets)
+   * so subsites can be told apart by longest-prefix matching
+   */
+  public registerWebs(urls: string[]): void {
+    urls.forEach((url: string) => {
+      const parsed = this._parse(url);
+      if (!parsed || parsed.host !== this._host || !this._looksLikeWebRoot(parsed.path)) return;
+      this._addWebKey(this._key(parsed));
+    });
+  }
+
+  /** Classify a link href (absolute, server-relative or relative to the current web) */
+  public match(href: string): ISiteMatchResult {
+    const parsed = this._parse(href);
+    if (!parsed) {
+      return { isCurrent: false, isSharePointSite: false, siteKey: '', webKey: '', reason: 'unresolvable href' };
+    }
+
+    const key = this._key(parsed);
+    const siteKey = this._siteKeyFor(parsed, key);
+    const webKey = this._webKeyFor(key, siteKey);
+
+    if (parsed.host !== this._host) {
+      return { isCurrent: false, isSharePointSite: false, siteKey, webKey, reason: `external host ${parsed.host}` };
+    }
+
+    switch (this._matchMode) {
+      case 'page': {
+        const isCurrent = key === this._currentPageKey;
+        return { isCurrent, isSharePointSite: true, siteKey, webKey, reason: isCurrent ? 'same page' : 'different page' };
+      }
+      case 'web': {
+        const isCurrent = webKey === this._currentWebKey;
+        return { isCurrent, isSharePointSite: true, siteKey, webKey, reason: isCurrent ? 'same web' : `different web ${webKey}` };
+      }
+      default: {
+        const isCurrent = siteKey === this._currentSiteKey;
+        return {
+          isCurrent,
+          isSharePointSite: true,
+          siteKey,
+          webKey,
+          reason: isCurrent ? 'same site collection' : `different site collection ${siteKey}`
+        };
+      }
+    }
+  }
+
+  /** Normalised key of an href (host + lower-case path), "" when unresolvable */
+  public urlKey(href: string): string {
+    const parsed = this._parse(href);
+    return parsed ? this._key(parsed) : '';
+  }
+
+  /**
+   * How well an href matches the current page: the length of its key when the page
+   * is that location or below it within the current site collection (longer = more
+   * specific), -1 otherwise
+   */
+  public activePathScore(href: string): number {
+    const parsed = this._parse(href);
+    if (!parsed) return -1;
+    const key = this._key(parsed);
+    if (this._siteKeyFor(parsed, key) !== this._currentSiteKey || !this._contains(key, this._currentPageKey)) return -1;
+    return key.length;
+  }
+
+  /** True when the href points at exactly the current page */
+  public isCurrentPage(href: string): boolean {
+    const parsed = this._parse(href);
+    return !!parsed && !!this._currentPageKey && this._key(parsed) === this._currentPageKey;
+  }
+
+  /**
+   * Parse a URL relative to the current web and normalise host aliases
+   */
+  private _parse(href: string): IParsedUrl | null {
+    const value = (href || '').trim();
+    if (!value || value.charAt(0) === '#' || /^(javascript|mailto|tel):/i.test(value)) return null;
+
+    let url: URL;
+    try {
+      url = new URL(value, this._baseUrl);
+    } catch (error) {
+      return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    let path = url.pathname;
+    try {
+      path = decodeURIComponent(path);
+    } catch (error) {
+      // Keep the encoded path when it contains malformed escapes
+    }
+    path = path.toLowerCase().replace(/\/+$/, '');
+
+    let host = url.host.toLowerCase();
+    if (this._host && this._hostAliases.indexOf(host) > -1) {
+      host = this._host;
+    }
+
+    return { host, path };
+  }
+
+  private _key(parsed: IParsedUrl): string {
+    return parsed.host + parsed.path;
+  }
+
+  /**
+   * Site collection key for a link: the current site collection when the link is inside it
+   * (covers non-default managed paths), else "/{managedPath}/{name}" or the root site
+   */
+  private _siteKeyFor(parsed: IParsedUrl, key: string): string {
+    if (this._currentSiteKey !== this._host && this._contains(this._currentSiteKey, key)) {
+      return this._currentSiteKey;
+    }
+
+    const segments = parsed.path.split('/').filter((s: string) => !!s);
+    if (segments.length >= 2 && this._managedPaths.indexOf(segments[0]) > -1) {
+      return `${parsed.host}/${segments[0]}/${segments[1]}`;
+    }
+    return parsed.host;
+  }
+
+  /**
+   * Longest registered web that contains the link, falling back to its site collection
+   */
+  private _webKeyFor(key: string, siteKey: string): string {
+    let best = siteKey;
+    this._webKeys.forEach((webKey: string) => {
+      if (webKey.length > best.length && this._contains(webKey, key) && this._contains(siteKey, webKey)) {
+        best = webKey;
+      }
+    });
+    return best;
+  }
+
+  private _contains(parentKey: string, key: string): boolean {
+    return !!parentKey && (key === parentKey || key.indexOf(`${parentKey}/`) === 0);
+  }
+
+  private _looksLikeWebRoot(path: string): boolean {
+    const segments = path.split('/').filter((s: string) => !!s);
+    const last = segments[segments.length - 1] || '';
+    if (last.indexOf('.') > -1) return false;
+    return !segments.some((s: string) => NON_WEB_SEGMENTS.indexOf(s) > -1);
+  }
+
+  private _addWebKey(key: string): void {
+    if (key && this._webKeys.indexOf(key) === -1) {
+      this._webKeys.push(key);
+    }
+  }
+}
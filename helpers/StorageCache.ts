@@ -0,0 +1,61 @@
+// helpers/StorageCache.ts
+
+/** A cached value with the time it was stored and an optional ETag */
+export interface ICacheEntry<T> {
+  value: T;
+  storedAt: number;
+  etag?: string;
+}
+
+/** Which Web Storage area to cache in */
+export type CacheStorageType = 'session' | 'local';
+
+const KEY_PREFIX = 'hubnav:';
+
+/**
+ * Thin JSON wrapper over sessionStorage/localStorage. Storage can be unavailable
+ * (private browsing, quota, policies), so every call degrades to a cache miss.
+ */
+export class StorageCache {
+  private _storage: Storage | null;
+
+  constructor(type: CacheStorageType) {
+    try {
+      this._storage = type === 'local' ? window.localStorage : window.sessionStorage;
+    } catch (error) {
+      this._storage = null;
+    }
+  }
+
+  public get<T>(key: string): ICacheEntry<T> | undefined {
+    try {
+      const raw = this._storage ? this._storage.getItem(KEY_PREFIX + key) : null;
+      return raw ? JSON.parse(raw) as ICacheEntry<T> : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public set<T>(key: string, value: T, etag?: string): void {
+    if (!this._storage) return;
+    const entry: ICacheEntry<T> = { value, storedAt: Date.now(), etag };
+    try {
+      this._storage.setItem(KEY_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      // Quota exceeded or storage disabled: caching is best effort
+    }
+  }
+
+  public remove(key: string): void {
+    try {
+      if (this._storage) this._storage.removeItem(KEY_PREFIX + key);
+    } catch (error) {
+      // Ignore, see set()
+    }
+  }
+
+  /** True when the entry was stored less than `ttlMs` ago */
+  public static isFresh<T>(entry: ICacheEntry<T> | undefined, ttlMs: number): boolean {
+    return !!entry && Date.now() - entry.storedAt < ttlMs;
+  }
+}
@@ -0,0 +1,122 @@
+// helpers/StyleRules.ts
+import { HubRelation, ILinkStyle, IStyleRule, IStyleRuleMatch } from '../INavConfig';
+import { ISiteMatchResult } from './SiteMatcher';
+import { matchesPattern } from './Patterns';
+
+/** What style rules are tested against for one link */
+export interface ILinkFacts {
+  /** Absolute URL ("" when the href cannot be resolved) */
+  url: string;
+  title: string;
+  isCurrent: boolean;
+  isExternal: boolean;
+  /** Relation to the current hub; undefined until hub membership is known */
+  hub: HubRelation | undefined;
+  /** Lower-case file extension of the last path segment ("" for none) */
+  extension: string;
+}
+
+/** Prefix of the classes generated for rules with a `style` */
+const RULE_CLASS_PREFIX = 'hub-nav-rule-';
+
+/**
+ * Collect the facts about a link. `sameHubSiteKeys` lists the site keys of the
+ * current hub's sites, or is null while they are unknown.
+ */
+export function getLinkFacts(
+  href: string,
+  title: string,
+  result: ISiteMatchResult,
+  baseUrl: string,
+  sameHubSiteKeys: string[] | null
+): ILinkFacts {
+  let url = '';
+  let extension = '';
+  if (result.siteKey) {
+    try {
+      const parsed = new URL(href, baseUrl.replace(/\/?$/, '/'));
+      url = parsed.href;
+      const ext = /\.([a-z0-9]+)$/i.exec(parsed.pathname);
+      extension = ext ? ext[1].toLowerCase() : '';
+    } catch (error) {
+      url = '';
+    }
+  }
+
+  let hub: HubRelation | undefined;
+  if (result.isSharePointSite && sameHubSiteKeys) {
+    hub = sameHubSiteKeys.indexOf(result.siteKey) > -1 ? 'same' : 'other';
+  }
+
+  return {
+    url,
+    title: title.trim(),
+    isCurrent: result.isCurrent,
+    isExternal: !!result.siteKey && !result.isSharePointSite,
+    hub,
+    extension
+  };
+}
+
+/** A rule matches when every condition it sets matches */
+export function styleRuleMatches(match: IStyleRuleMatch, facts: ILinkFacts): boolean {
+  return (match.url === undefined || (!!facts.url && matchesPattern(match.url, facts.url)))
+    && (match.external === undefined || match.external === facts.isExternal)
+    && (match.hub === undefined || match.hub === facts.hub)
+    && (match.extension === undefined || match.extension.indexOf(facts.extension) > -1)
+    && (match.title === undefined || matchesPattern(match.title, facts.title))
+    && (match.current === undefined || match.current === facts.isCurrent);
+}
+
+/** Index of the first matching rule, -1 when none matches */
+export function findStyleRule(rules: IStyleRule[], facts: ILinkFacts): number {
+  for (let i = 0; i < rules.length; i++) {
+    if (styleRuleMatches(rules[i].match, facts)) return i;
+  }
+  return -1;
+}
+
+/** Classes a link matching rule `index` gets */
+export function styleRuleClasses(rules: IStyleRule[], index: number): string[] {
+  const rule = rules[index];
+  const classes = rule.style ? [`${RULE_CLASS_PREFIX}${index}`] : [];
+  return rule.className ? classes.concat(rule.className.split(/\s+/)) : classes;
+}
+
+/** True when any rule needs to know which sites belong to the current hub */
+export function usesHubRelation(rules: IStyleRule[]): boolean {
+  return rules.some((rule: IStyleRule) => rule.match.hub !== undefined);
+}
+
+/**
+ * CSS for rules with a `style`, using the same selectors as the built-in classes.
+ * `toColor` turns config colours into CSS values (e.g., theme slots into var()).
+ */
+export function buildStyleRulesCss(rules: IStyleRule[], toColor: (value: string) => string): string {
+  return rules
+    .map((rule: IStyleRule, index: number) => {
+      const declarations = rule.style ? styleDeclarations(rule.style, toColor) : '';
+      if (!declarations) return '';
+
+      const cls = `${RULE_CLASS_PREFIX}${index}`;
+      return `
+        .${cls},
+        .${cls} span,
+        .${cls} button,
+        a.${cls} {
+          ${declarations}
+        }
+      `;
+    })
+    .join('');
+}
+
+function styleDeclarations(style: ILinkStyle, toColor: (value: string) => string): string {
+  const declarations: string[] = [];
+  if (style.color) declarations.push(`color: ${toColor(style.color)} !important;`);
+  if (style.fontWeight) declarations.push(`font-weight: ${style.fontWeight} !important;`);
+  if (style.backgroundColor) declarations.push(`background-color: ${toColor(style.backgroundColor)} !important;`);
+  if (style.textDecoration) declarations.push(`text-decoration: ${style.textDecoration} !important;`);
+  if (style.fontStyle) declarations.push(`font-style: ${style.fontStyle} !important;`);
+  return declarations.join('\n          ');
+}
@@ -0,0 +1,224 @@
+// helpers/Telemetry.ts
+import { HttpClient, HttpClientResponse, SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+
+/** Nav level set on the links of the customizer's own components (GlobalHubNav, HubSwitcher, Breadcrumb) */
+export const LINK_DEPTH_ATTRIBUTE = 'data-hub-nav-depth';
+
+/** One click on a navigation link */
+export interface INavClickEvent {
+  /** ISO time of the click */
+  timestamp: string;
+  /** Link text or node title */
+  title: string;
+  /** Absolute target URL */
+  url: string;
+  /** Absolute URL of the web the click happened on */
+  sourceSite: string;
+  /** 0 for top-level items, 1 for mega menu headings and flyout items, 2 below headings */
+  depth: number;
+  /** The target is the current site (per matchMode) */
+  isCurrentSite: boolean;
+  /** Where the link was: a selector region, or the customizer's own "hubNav", "hubSwitcher" or "breadcrumb" */
+  region: string;
+}
+
+/** Destination for batches of click events */
+export interface ITelemetrySink {
+  send(events: INavClickEvent[]): Promise<void>;
+}
+
+/** Failed telemetry request */
+export class TelemetryError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TelemetryError';
+    this.status = status;
+  }
+}
+
+/** Logs batches to the browser console, for trying out the event shape */
+export class ConsoleSink implements ITelemetrySink {
+  public send(events: INavClickEvent[]): Promise<void> {
+    console.table(events);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Adds one list item per event, all of a batch in one $batch request. The list
+ * needs text columns TargetUrl, SourceSite and Region, a number column Depth and a
+ * yes/no column IsCurrentSite; Title holds the link title and the item's Created
+ * date the time.
+ */
+export class ListSink implements ITelemetrySink {
+  private _spHttpClient: SPHttpClient;
+  private _siteUrl: string;
+  private _listTitle: string;
+
+  constructor(spHttpClient: SPHttpClient, siteUrl: string, listTitle: string) {
+    this._spHttpClient = spHttpClient;
+    this._siteUrl = siteUrl;
+    this._listTitle = listTitle;
+  }
+
+  public async send(events: INavClickEvent[]): Promise<void> {
+    const baseUrl = this._siteUrl.replace(/\/$/, '');
+    const itemsUrl = `${baseUrl}/_api/web/lists/GetByTitle('${encodeURIComponent(this._listTitle.replace(/'/g, "''"))}')/items`;
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).substr(2)}`;
+
+    let res: SPHttpClientResponse;
+    let text: string;
+    try {
+      res = await this._spHttpClient.post(`${baseUrl}/_api/$batch`, SPHttpClient.configurations.v1, {
+        headers: { 'Content-Type': `multipart/mixed; boundary=batch_${id}` },
+        body: batchBody(id, itemsUrl, events),
+        keepalive: true
+      });
+      text = await res.text();
+    } catch (error) {
+      throw new TelemetryError(`List request failed: ${error}`, 0);
+    }
+    if (!res.ok) {
+      throw new TelemetryError(`List request returned ${res.status} ${res.statusText}`, res.status);
+    }
+
+    // $batch answers 200 and reports each item's status in the multipart body
+    const failed = (text.match(/^HTTP\/1\.1 \d{3}/gm) || []).filter((line: string) => line.charAt(9) !== '2');
+    if (failed.length > 0) {
+      throw new TelemetryError(`List batch had ${failed.length} failed items (${failed[0]})`, Number(failed[0].substr(9)));
+    }
+  }
+}
+
+/** Multipart body of an OData $batch with one changeset adding an item per event */
+function batchBody(id: string, itemsUrl: string, events: INavClickEvent[]): string {
+  const lines: string[] = [
+    `--batch_${id}`,
+    `Content-Type: multipart/mixed; boundary=changeset_${id}`,
+    ''
+  ];
+  events.forEach((event: INavClickEvent) => {
+    lines.push(
+      `--changeset_${id}`,
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      `POST ${itemsUrl} HTTP/1.1`,
+      'Content-Type: application/json;odata=nometadata',
+      'Accept: application/json;odata=nometadata',
+      '',
+      JSON.stringify({
+        Title: event.title.substr(0, 255),
+        TargetUrl: event.url,
+        SourceSite: event.sourceSite,
+        Region: event.region,
+        Depth: event.depth,
+        IsCurrentSite: event.isCurrentSite
+      }),
+      ''
+    );
+  });
+  lines.push(`--changeset_${id}--`, '', `--batch_${id}--`, '');
+  return lines.join('\r\n');
+}
+
+/** POSTs each batch as a JSON array to an HTTPS endpoint */
+export class HttpSink implements ITelemetrySink {
+  private _httpClient: HttpClient;
+  private _endpoint: string;
+
+  constructor(httpClient: HttpClient, endpoint: string) {
+    this._httpClient = httpClient;
+    this._endpoint = endpoint;
+  }
+
+  public async send(events: INavClickEvent[]): Promise<void> {
+    let res: HttpClientResponse;
+    try {
+      res = await this._httpClient.post(this._endpoint, HttpClient.configurations.v1, {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(events),
+        keepalive: true
+      });
+    } catch (error) {
+      throw new TelemetryError(`Telemetry request failed: ${error}`, 0);
+    }
+    if (!res.ok) {
+      throw new TelemetryError(`Telemetry request returned ${res.status} ${res.statusText}`, res.status);
+    }
+  }
+}
+
+export interface ITelemetryQueueOptions {
+  /** Events sent together; reaching it sends at once */
+  batchSize: number;
+  /** Longest an event waits before its batch is sent (ms) */
+  flushIntervalMs: number;
+  /** Called when a batch cannot be sent; the batch is dropped */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Batches click events for a sink. Batches are also sent when the page is hidden,
+ * since most nav clicks leave the page; sinks use keepalive requests for that.
+ */
+export class TelemetryQueue {
+  private _sink: ITelemetrySink;
+  private _options: ITelemetryQueueOptions;
+  private _events: INavClickEvent[] = [];
+  private _timer: number | undefined;
+  private _onPageHide: () => void;
+  private _onVisibilityChange: () => void;
+
+  constructor(sink: ITelemetrySink, options: ITelemetryQueueOptions) {
+    this._sink = sink;
+    this._options = options;
+    this._onPageHide = () => this.flush();
+    this._onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') this.flush();
+    };
+    document.addEventListener('visibilitychange', this._onVisibilityChange);
+    window.addEventListener('pagehide', this._onPageHide);
+  }
+
+  public track(event: INavClickEvent): void {
+    this._events.push(event);
+    if (this._events.length >= this._options.batchSize) {
+      this.flush();
+    } else if (this._timer === undefined) {
+      this._timer = window.setTimeout(() => this.flush(), this._options.flushIntervalMs);
+    }
+  }
+
+  /** Send the queued events now */
+  public flush(): void {
+    window.clearTimeout(this._timer);
+    this._timer = undefined;
+    if (this._events.length === 0) return;
+
+    const batch = this._events;
+    this._events = [];
+    this._sink.send(batch).catch(this._options.onError);
+  }
+
+  /** Send what is queued and stop listening for page hide */
+  public dispose(): void {
+    this.flush();
+    document.removeEventListener('visibilitychange', this._onVisibilityChange);
+    window.removeEventListener('pagehide', this._onPageHide);
+  }
+}
+
+/**
+ * True when the user opted out: listed by login name or, when honoured, the
+ * browser sends Do Not Track or Global Privacy Control
+ */
+export function isTelemetryOptedOut(loginName: string, optOutUsers: string[], honorDoNotTrack: boolean): boolean {
+  const login = loginName.toLowerCase();
+  if (optOutUsers.some((user: string) => user.toLowerCase() === login)) return true;
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return honorDoNotTrack && (nav.doNotTrack === '1' || nav.globalPrivacyControl === true);
+}
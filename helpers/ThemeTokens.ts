@@ -0,0 +1,83 @@
+// helpers/ThemeTokens.ts
+import { isSafeCssColor } from './ConfigValidator';
+
+/** Theme colours by slot name (palette and semantic colours) */
+export interface IThemeSlots {
+  [slot: string]: string;
+}
+
+/** SharePoint's default theme, used for slots the current theme does not provide */
+export const DEFAULT_THEME_SLOTS: IThemeSlots = {
+  themePrimary: '#0078d4',
+  themeLighterAlt: '#eff6fc',
+  themeLighter: '#deecf9',
+  themeLight: '#c7e0f4',
+  themeTertiary: '#71afe5',
+  themeSecondary: '#2b88d8',
+  themeDarkAlt: '#106ebe',
+  themeDark: '#005a9e',
+  themeDarker: '#004578',
+  neutralPrimary: '#323130',
+  neutralSecondary: '#605e5c',
+  neutralTertiary: '#a19f9d',
+  neutralLight: '#edebe9',
+  neutralLighter: '#f3f2f1',
+  white: '#ffffff',
+  black: '#000000',
+  bodyBackground: '#ffffff',
+  bodyText: '#323130',
+  link: '#0078d4',
+  linkHovered: '#004578'
+};
+
+/**
+ * Flatten a theme's palette and semantic colours into one slot map on top of the defaults
+ */
+export function getThemeSlots(theme: { palette?: object; semanticColors?: object } | undefined): IThemeSlots {
+  const slots: IThemeSlots = { ...DEFAULT_THEME_SLOTS };
+  if (!theme) return slots;
+
+  [theme.palette, theme.semanticColors].forEach((group: object | undefined) => {
+    if (!group) return;
+    const values = group as { [slot: string]: unknown };
+    Object.keys(values).forEach((slot: string) => {
+      const value = values[slot];
+      if (isSafeCssColor(value)) slots[slot] = value.trim();
+    });
+  });
+  return slots;
+}
+
+/**
+ * True when a config colour names a theme slot. Slot names win over CSS colour
+ * names, so "white" follows the theme (it is the page background, dark in dark themes).
+ */
+export function isThemeSlot(value: string, slots: IThemeSlots): boolean {
+  return slots.hasOwnProperty(value);
+}
+
+/** Custom property carrying a theme slot's colour */
+export function themeSlotProperty(slot: string): string {
+  return `--hubnav-theme-${slot}`;
+}
+
+/** CSS value for a config colour: theme slots become var() references */
+export function toCssColor(value: string, slots: IThemeSlots): string {
+  return isThemeSlot(value, slots) ? `var(${themeSlotProperty(value)})` : value;
+}
+
+/** Concrete colour for a config colour, for contrast checks */
+export function resolveColor(value: string, slots: IThemeSlots): string {
+  return isThemeSlot(value, slots) ? slots[value] : value;
+}
+
+/**
+ * Custom property declarations for the theme slots used by `values`
+ */
+export function themeSlotDeclarations(values: string[], slots: IThemeSlots): string[] {
+  const used: string[] = [];
+  values.forEach((value: string) => {
+    if (isThemeSlot(value, slots) && used.indexOf(value) === -1) used.push(value);
+  });
+  return used.map((name: string) => `${themeSlotProperty(name)}: ${slots[name]};`);
+}
@@ -0,0 +1,63 @@
+define([], function() {
+  return {
+    "Title": "HubNavigationApplicationCustomizer",
+
+    "HubNavigationLabel": "Hubnavigation",
+    "CurrentSiteSuffix": " (aktuelt websted)",
+    "CurrentHubSuffix": " (aktuel hub)",
+    "CurrentSiteAnnouncement": "Aktuelt websted: {0}",
+
+    "HubSwitcherLabel": "Hub:",
+    "HubSwitcherAriaLabel": "Skift hub",
+    "ParentHubHeading": "Overordnet hub",
+    "HubsUnderParentHeading": "Hubs i {0}",
+
+    "MobileMenuLabel": "Menu",
+    "MobileMenuOpen": "Åbn hubnavigation",
+    "MobileMenuClose": "Luk hubnavigation",
+    "MobileExpandSection": "Vis links under {0}",
+
+    "BreadcrumbAriaLabel": "Brødkrummesti",
+    "BreadcrumbExpand": "Vis hele stien",
+
+    "DebugPanelTitle": "Diagnosticering af hubnavigation",
+    "DebugPanelAriaLabel": "Diagnosticering af hubnavigation",
+    "DebugExpand": "Udvid",
+    "DebugCollapse": "Skjul",
+    "DebugClose": "Luk diagnosticering",
+    "DebugConfigSection": "Konfiguration",
+    "DebugConfigSource": "Kilde: {0}",
+    "DebugConfigLoadTime": ", indlæst på {0} ms",
+    "DebugNoConfig": "Ingen konfiguration fundet, standardværdier bruges",
+    "DebugProfile": "Profil: {0}",
+    "DebugNoProfile": "(ingen)",
+    "DebugActivation": "Aktivering: {0}",
+    "DebugWarningsSection": "Advarsler ({0})",
+    "DebugCurrentSiteSection": "Aktuelt websted",
+    "DebugSiteKey": "Webstedsnøgle: {0}",
+    "DebugWebKey": "Webnøgle: {0}",
+    "DebugPassesSection": "Fremhævningskørsler",
+    "DebugPassLinks": "{0} links",
+    "DebugSelectorSection": "Selektortræf",
+    "DebugLinksSection": "Links ({0}, {1} uden typografi)",
+    "DebugNoClass": "(ingen)",
+
+    "EditorTitle": "Indstillinger for hubnavigation",
+    "EditorAriaLabel": "Indstillinger for hubnavigation",
+    "EditorClose": "Luk indstillinger",
+    "EditorGeneralSection": "Generelt",
+    "EditorAdvancedSection": "Avanceret (JSON)",
+    "EditorNotSet": "(ikke angivet)",
+    "EditorPickColor": "Vælg farve til {0}",
+    "EditorInvalidJson": "Ugyldig JSON: {0}",
+    "EditorSetByProfile": "Angives af miljøprofilen \"{0}\", som har forrang for denne fil",
+    "EditorSetByProperties": "Angives i udvidelsens komponentegenskaber, som har forrang for denne fil",
+    "EditorSavesTo": "Gemmes i {0}",
+    "EditorSave": "Gem",
+    "EditorReset": "Kassér ændringer",
+    "EditorSaving": "Gemmer…",
+    "EditorSaved": "Gemt",
+    "EditorConflict": "En anden har ændret konfigurationsfilen, siden den blev åbnet. Genindlæs siden for at se deres ændringer; dine ændringer blev ikke gemt.",
+    "EditorSaveFailed": "Kunne ikke gemme: {0}"
+  }
+});
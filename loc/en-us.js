@@ -0,0 +1,63 @@
+define([], function() {
+  return {
+    "Title": "HubNavigationApplicationCustomizer",
+
+    "HubNavigationLabel": "Hub navigation",
+    "CurrentSiteSuffix": " (current site)",
+    "CurrentHubSuffix": " (current hub)",
+    "CurrentSiteAnnouncement": "Current site: {0}",
+
+    "HubSwitcherLabel": "Hub:",
+    "HubSwitcherAriaLabel": "Hub switcher",
+    "ParentHubHeading": "Parent hub",
+    "HubsUnderParentHeading": "Hubs in {0}",
+
+    "MobileMenuLabel": "Menu",
+    "MobileMenuOpen": "Open hub navigation",
+    "MobileMenuClose": "Close hub navigation",
+    "MobileExpandSection": "Show links under {0}",
+
+    "BreadcrumbAriaLabel": "Breadcrumb",
+    "BreadcrumbExpand": "Show full path",
+
+    "DebugPanelTitle": "Hub nav diagnostics",
+    "DebugPanelAriaLabel": "Hub navigation diagnostics",
+    "DebugExpand": "Expand",
+    "DebugCollapse": "Collapse",
+    "DebugClose": "Close diagnostics",
+    "DebugConfigSection": "Config",
+    "DebugConfigSource": "Source: {0}",
+    "DebugConfigLoadTime": ", loaded in {0} ms",
+    "DebugNoConfig": "No config found, using defaults",
+    "DebugProfile": "Profile: {0}",
+    "DebugNoProfile": "(none)",
+    "DebugActivation": "Activation: {0}",
+    "DebugWarningsSection": "Warnings ({0})",
+    "DebugCurrentSiteSection": "Current site",
+    "DebugSiteKey": "Site key: {0}",
+    "DebugWebKey": "Web key: {0}",
+    "DebugPassesSection": "Highlight passes",
+    "DebugPassLinks": "{0} links",
+    "DebugSelectorSection": "Selector matches",
+    "DebugLinksSection": "Links ({0}, {1} unstyled)",
+    "DebugNoClass": "(none)",
+
+    "EditorTitle": "Hub nav settings",
+    "EditorAriaLabel": "Hub navigation settings",
+    "EditorClose": "Close settings",
+    "EditorGeneralSection": "General",
+    "EditorAdvancedSection": "Advanced (JSON)",
+    "EditorNotSet": "(not set)",
+    "EditorPickColor": "Pick colour for {0}",
+    "EditorInvalidJson": "Invalid JSON: {0}",
+    "EditorSetByProfile": "Set by environment profile \"{0}\", which applies over this file",
+    "EditorSetByProperties": "Set in the extension's component properties, which apply over this file",
+    "EditorSavesTo": "Saves to {0}",
+    "EditorSave": "Save",
+    "EditorReset": "Discard changes",
+    "EditorSaving": "Saving…",
+    "EditorSaved": "Saved",
+    "EditorConflict": "Someone else changed the config file since it was opened. Reload the page to see their changes; yours were not saved.",
+    "EditorSaveFailed": "Saving failed: {0}"
+  }
+});
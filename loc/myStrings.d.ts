@@ -0,0 +1,90 @@
+declare interface IHubNavigationApplicationCustomizerStrings {
+  Title: string;
+
+  /** aria-label of the custom hub navigation */
+  HubNavigationLabel: string;
+  /** Visually hidden text after the current site link */
+  CurrentSiteSuffix: string;
+  /** Visually hidden text after the current hub in the hub switcher */
+  CurrentHubSuffix: string;
+  /** Live region text after in-page navigation; {0} is the site title */
+  CurrentSiteAnnouncement: string;
+
+  /** Hub switcher text before the current hub when the config sets no label */
+  HubSwitcherLabel: string;
+  HubSwitcherAriaLabel: string;
+  ParentHubHeading: string;
+  /** {0} is the parent hub's title */
+  HubsUnderParentHeading: string;
+
+  /** Text of the menu button in collapsed (mobile) mode */
+  MobileMenuLabel: string;
+  MobileMenuOpen: string;
+  MobileMenuClose: string;
+  /** {0} is the section's title */
+  MobileExpandSection: string;
+
+  BreadcrumbAriaLabel: string;
+  BreadcrumbExpand: string;
+
+  DebugPanelTitle: string;
+  DebugPanelAriaLabel: string;
+  DebugExpand: string;
+  DebugCollapse: string;
+  DebugClose: string;
+  DebugConfigSection: string;
+  /** {0} is where the config came from */
+  DebugConfigSource: string;
+  /** Appended to DebugConfigSource; {0} is the load time */
+  DebugConfigLoadTime: string;
+  DebugNoConfig: string;
+  /** {0} is the environment profile name, or DebugNoProfile */
+  DebugProfile: string;
+  DebugNoProfile: string;
+  /** {0} is the activation result and reason */
+  DebugActivation: string;
+  /** {0} is the number of warnings */
+  DebugWarningsSection: string;
+  DebugCurrentSiteSection: string;
+  DebugSiteKey: string;
+  DebugWebKey: string;
+  DebugPassesSection: string;
+  /** {0} is the number of links in a pass */
+  DebugPassLinks: string;
+  DebugSelectorSection: string;
+  /** {0} is the number of links, {1} how many got no class */
+  DebugLinksSection: string;
+  DebugNoClass: string;
+
+  EditorTitle: string;
+  EditorAriaLabel: string;
+  EditorClose: string;
+  /** Section with the top-level options */
+  EditorGeneralSection: string;
+  /** Section with the options edited as JSON */
+  EditorAdvancedSection: string;
+  /** Placeholder of optional fields */
+  EditorNotSet: string;
+  /** aria-label of a colour picker; {0} is the config key */
+  EditorPickColor: string;
+  /** {0} is the JSON parser's message */
+  EditorInvalidJson: string;
+  /** Why a field is read-only; {0} is the environment profile name */
+  EditorSetByProfile: string;
+  /** Why a field is read-only */
+  EditorSetByProperties: string;
+  /** {0} is the config file path */
+  EditorSavesTo: string;
+  EditorSave: string;
+  EditorReset: string;
+  EditorSaving: string;
+  EditorSaved: string;
+  EditorConflict: string;
+  /** {0} is the error message */
+  EditorSaveFailed: string;
+}
+
+declare module 'HubNavigationApplicationCustomizerStrings' {
+  const strings: IHubNavigationApplicationCustomizerStrings;
+  export = strings;
+}
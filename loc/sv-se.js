@@ -0,0 +1,63 @@
+define([], function() {
+  return {
+    "Title": "HubNavigationApplicationCustomizer",
+
+    "HubNavigationLabel": "Hubbnavigering",
+    "CurrentSiteSuffix": " (aktuell webbplats)",
+    "CurrentHubSuffix": " (aktuell hubb)",
+    "CurrentSiteAnnouncement": "Aktuell webbplats: {0}",
+
+    "HubSwitcherLabel": "Hubb:",
+    "HubSwitcherAriaLabel": "Byt hubb",
+    "ParentHubHeading": "Överordnad hubb",
+    "HubsUnderParentHeading": "Hubbar i {0}",
+
+    "MobileMenuLabel": "Meny",
+    "MobileMenuOpen": "Öppna hubbnavigeringen",
+    "MobileMenuClose": "Stäng hubbnavigeringen",
+    "MobileExpandSection": "Visa länkar under {0}",
+
+    "BreadcrumbAriaLabel": "Sökväg",
+    "BreadcrumbExpand": "Visa hela sökvägen",
+
+    "DebugPanelTitle": "Diagnostik för hubbnavigering",
+    "DebugPanelAriaLabel": "Diagnostik för hubbnavigering",
+    "DebugExpand": "Visa",
+    "DebugCollapse": "Dölj",
+    "DebugClose": "Stäng diagnostik",
+    "DebugConfigSection": "Konfiguration",
+    "DebugConfigSource": "Källa: {0}",
+    "DebugConfigLoadTime": ", inläst på {0} ms",
+    "DebugNoConfig": "Ingen konfiguration hittades, standardvärden används",
+    "DebugProfile": "Profil: {0}",
+    "DebugNoProfile": "(ingen)",
+    "DebugActivation": "Aktivering: {0}",
+    "DebugWarningsSection": "Varningar ({0})",
+    "DebugCurrentSiteSection": "Aktuell webbplats",
+    "DebugSiteKey": "Webbplatsnyckel: {0}",
+    "DebugWebKey": "Webbnyckel: {0}",
+    "DebugPassesSection": "Markeringspass",
+    "DebugPassLinks": "{0} länkar",
+    "DebugSelectorSection": "Selektorträffar",
+    "DebugLinksSection": "Länkar ({0}, {1} utan stil)",
+    "DebugNoClass": "(ingen)",
+
+    "EditorTitle": "Inställningar för hubbnavigering",
+    "EditorAriaLabel": "Inställningar för hubbnavigering",
+    "EditorClose": "Stäng inställningar",
+    "EditorGeneralSection": "Allmänt",
+    "EditorAdvancedSection": "Avancerat (JSON)",
+    "EditorNotSet": "(inte angivet)",
+    "EditorPickColor": "Välj färg för {0}",
+    "EditorInvalidJson": "Ogiltig JSON: {0}",
+    "EditorSetByProfile": "Anges av miljöprofilen \"{0}\", som har företräde framför den här filen",
+    "EditorSetByProperties": "Anges i tilläggets komponentegenskaper, som har företräde framför den här filen",
+    "EditorSavesTo": "Sparas i {0}",
+    "EditorSave": "Spara",
+    "EditorReset": "Ignorera ändringar",
+    "EditorSaving": "Sparar…",
+    "EditorSaved": "Sparat",
+    "EditorConflict": "Någon annan har ändrat konfigurationsfilen sedan den öppnades. Läs in sidan igen för att se deras ändringar; dina ändringar sparades inte.",
+    "EditorSaveFailed": "Det gick inte att spara: {0}"
+  }
+});
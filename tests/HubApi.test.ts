@@ -0,0 +1,116 @@
+// tests/HubApi.test.ts
+/// <reference types="jest" />
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { getHubFamily, IHubApiOptions } from '../helpers/HubApi';
+import { StorageCache } from '../helpers/StorageCache';
+
+// Only SPHttpClient.configurations is read from the module; requests go to the stub client
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+const WEB_URL = 'https://contoso.sharepoint.com/sites/team';
+const HUB_ID = '22222222-2222-2222-2222-222222222222';
+const PARENT_ID = '11111111-1111-1111-1111-111111111111';
+
+/** Responses by URL fragment; anything else is a 404 */
+interface IStubResponses {
+  hubSiteData?: unknown;
+  hubSites?: unknown;
+  hubSitesStatus?: number;
+}
+
+function response(status: number, body: unknown): SPHttpClientResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Not Found',
+    json: () => Promise.resolve(body)
+  } as unknown as SPHttpClientResponse;
+}
+
+function stubClient(responses: IStubResponses): { client: SPHttpClient; get: jest.Mock } {
+  const get = jest.fn((url: string) => {
+    if (url.indexOf('/_api/web/HubSiteData') !== -1) return Promise.resolve(response(200, responses.hubSiteData));
+    if (url.indexOf('/_api/HubSites') !== -1) {
+      return Promise.resolve(response(responses.hubSitesStatus || 200, responses.hubSites));
+    }
+    return Promise.resolve(response(404, {}));
+  });
+  return { client: { get } as unknown as SPHttpClient, get };
+}
+
+function hubSiteData(parentHubSiteId: string): { value: string } {
+  return { value: JSON.stringify({ name: 'Team Hub', url: 'https://contoso.sharepoint.com/sites/teamhub', parentHubSiteId }) };
+}
+
+function hubRow(id: string, title: string, parentId: string | null): { [key: string]: string | null } {
+  const siteUrl = `https://contoso.sharepoint.com/sites/${title.replace(/ /g, '').toLowerCase()}`;
+  return { ID: id, Title: title, SiteUrl: siteUrl, ParentHubSiteId: parentId };
+}
+
+const options: IHubApiOptions = { ttlMs: 60000, timeoutMs: 5000 };
+
+describe('getHubFamily', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it('returns the parent hub and the sibling hubs sorted by title', async () => {
+    const { client } = stubClient({
+      hubSiteData: hubSiteData(`{${PARENT_ID.toUpperCase()}}`),
+      hubSites: {
+        value: [
+          hubRow(PARENT_ID, 'Intranet', null),
+          hubRow(HUB_ID, 'Team Hub', PARENT_ID),
+          hubRow('44444444-4444-4444-4444-444444444444', 'Sales Hub', PARENT_ID),
+          hubRow('33333333-3333-3333-3333-333333333333', 'HR Hub', PARENT_ID),
+          hubRow('55555555-5555-5555-5555-555555555555', 'Other Hub', null)
+        ]
+      }
+    });
+
+    const family = await getHubFamily(WEB_URL, `{${HUB_ID}}`, client, options);
+
+    expect(family.current).toEqual({
+      id: HUB_ID,
+      title: 'Team Hub',
+      url: 'https://contoso.sharepoint.com/sites/teamhub',
+      parentHubSiteId: PARENT_ID
+    });
+    expect(family.parent && family.parent.title).toBe('Intranet');
+    expect(family.siblings.map((hub: { title: string }) => hub.title)).toEqual(['HR Hub', 'Sales Hub']);
+  });
+
+  it('returns no parent or siblings for a hub that is not associated with another hub', async () => {
+    const { client } = stubClient({
+      hubSiteData: hubSiteData('00000000-0000-0000-0000-000000000000'),
+      hubSites: { value: [hubRow(HUB_ID, 'Team Hub', null), hubRow(PARENT_ID, 'Intranet', null)] }
+    });
+
+    const family = await getHubFamily(WEB_URL, HUB_ID, client, options);
+
+    expect(family.current.parentHubSiteId).toBe('');
+    expect(family.parent).toBeNull();
+    expect(family.siblings).toEqual([]);
+  });
+
+  it('rejects with the status when the HubSites request fails', async () => {
+    const { client } = stubClient({ hubSiteData: hubSiteData(PARENT_ID), hubSitesStatus: 404 });
+
+    await expect(getHubFamily(WEB_URL, HUB_ID, client, options)).rejects.toMatchObject({ name: 'HubApiError', status: 404 });
+  });
+
+  it('uses a fresh cached family without requesting it again', async () => {
+    const cache = new StorageCache('session');
+    const { client, get } = stubClient({
+      hubSiteData: hubSiteData(PARENT_ID),
+      hubSites: { value: [hubRow(PARENT_ID, 'Intranet', null), hubRow(HUB_ID, 'Team Hub', PARENT_ID)] }
+    });
+
+    const first = await getHubFamily(WEB_URL, HUB_ID, client, { ...options, cache });
+    expect(get).toHaveBeenCalledTimes(2);
+
+    const second = await getHubFamily(WEB_URL, HUB_ID, client, { ...options, cache });
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(second).toEqual(first);
+  });
+});
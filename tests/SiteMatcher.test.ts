@@ -0,0 +1,138 @@
+// tests/SiteMatcher.test.ts
+/// <reference types="jest" />
+import { SiteMatchMode } from '../INavConfig';
+import { ISiteMatchContext, SiteMatcher } from '../helpers/SiteMatcher';
+
+const HOST = 'https://contoso.sharepoint.com';
+
+const HR_SITE: ISiteMatchContext = {
+  webAbsoluteUrl: `${HOST}/sites/hr`,
+  siteAbsoluteUrl: `${HOST}/sites/hr`,
+  pageServerRelativeUrl: '/sites/hr/SitePages/Home.aspx'
+};
+
+const POLICIES_WEB: ISiteMatchContext = {
+  webAbsoluteUrl: `${HOST}/sites/hr/policies`,
+  siteAbsoluteUrl: `${HOST}/sites/hr`,
+  pageServerRelativeUrl: '/sites/hr/policies/SitePages/Leave.aspx'
+};
+
+function matcher(context: ISiteMatchContext, matchMode: SiteMatchMode = 'site', hostAliases: string[] = []): SiteMatcher {
+  return new SiteMatcher(context, { matchMode, managedPaths: ['sites', 'teams', 'projects'], hostAliases });
+}
+
+describe('SiteMatcher', () => {
+  describe('managed paths', () => {
+    it('keys links by managed path and site name', () => {
+      const m = matcher(HR_SITE);
+
+      expect(m.match(`${HOST}/sites/finance/SitePages/Home.aspx`).siteKey).toBe('contoso.sharepoint.com/sites/finance');
+      expect(m.match(`${HOST}/teams/sales`).siteKey).toBe('contoso.sharepoint.com/teams/sales');
+      expect(m.match(`${HOST}/projects/apollo/Shared Documents`).siteKey).toBe('contoso.sharepoint.com/projects/apollo');
+    });
+
+    it('keys paths outside the managed paths as the root site', () => {
+      const result = matcher(HR_SITE).match(`${HOST}/portals/intranet`);
+
+      expect(result.siteKey).toBe('contoso.sharepoint.com');
+      expect(result.isCurrent).toBe(false);
+    });
+
+    it('treats a link inside the current site collection as current on a non-default managed path', () => {
+      const m = new SiteMatcher(
+        { webAbsoluteUrl: `${HOST}/depts/hr`, siteAbsoluteUrl: `${HOST}/depts/hr`, pageServerRelativeUrl: '/depts/hr' },
+        { matchMode: 'site', managedPaths: ['sites'], hostAliases: [] }
+      );
+
+      expect(m.match(`${HOST}/depts/hr/SitePages/News.aspx`).isCurrent).toBe(true);
+      expect(m.match(`${HOST}/depts/it`).isCurrent).toBe(false);
+    });
+  });
+
+  describe('site match mode', () => {
+    it('marks every link in the current site collection as current, subsites included', () => {
+      const m = matcher(HR_SITE);
+
+      expect(m.match(`${HOST}/sites/hr`).isCurrent).toBe(true);
+      expect(m.match(`${HOST}/sites/hr/policies/SitePages/Leave.aspx`).isCurrent).toBe(true);
+      expect(m.match(`${HOST}/sites/hr-archive`).isCurrent).toBe(false);
+      expect(m.match(`${HOST}/sites/finance`).isCurrent).toBe(false);
+    });
+  });
+
+  describe('web match mode', () => {
+    it('resolves links to the longest registered web', () => {
+      const m = matcher(POLICIES_WEB, 'web');
+      m.registerWebs([`${HOST}/sites/hr`, `${HOST}/sites/hr/policies`, `${HOST}/sites/hr/policies/eu`]);
+
+      expect(m.match(`${HOST}/sites/hr/policies/SitePages/Sick.aspx`).webKey).toBe('contoso.sharepoint.com/sites/hr/policies');
+      expect(m.match(`${HOST}/sites/hr/policies/eu/SitePages/Home.aspx`).webKey).toBe('contoso.sharepoint.com/sites/hr/policies/eu');
+      expect(m.match(`${HOST}/sites/hr/SitePages/Home.aspx`).webKey).toBe('contoso.sharepoint.com/sites/hr');
+    });
+
+    it('marks only links into the current web as current', () => {
+      const m = matcher(POLICIES_WEB, 'web');
+      m.registerWebs([`${HOST}/sites/hr/policies/eu`]);
+
+      expect(m.match(`${HOST}/sites/hr/policies/SitePages/Sick.aspx`).isCurrent).toBe(true);
+      expect(m.match(`${HOST}/sites/hr/policies/eu`).isCurrent).toBe(false);
+      expect(m.match(`${HOST}/sites/hr`).isCurrent).toBe(false);
+    });
+
+    it('does not register library, list or page URLs as webs', () => {
+      const m = matcher(HR_SITE, 'web');
+      m.registerWebs([`${HOST}/sites/hr/SitePages/Home.aspx`, `${HOST}/sites/hr/Shared Documents/Forms`]);
+
+      expect(m.match(`${HOST}/sites/hr/SitePages/Home.aspx`).webKey).toBe('contoso.sharepoint.com/sites/hr');
+    });
+  });
+
+  describe('page match mode', () => {
+    it('marks only links to the current page as current', () => {
+      const m = matcher(HR_SITE, 'page');
+
+      expect(m.match('/sites/hr/SitePages/Home.aspx').isCurrent).toBe(true);
+      expect(m.match('/sites/hr/SitePages/News.aspx').isCurrent).toBe(false);
+      expect(m.isCurrentPage(`${HOST}/sites/hr/SitePages/Home.aspx`)).toBe(true);
+    });
+  });
+
+  describe('host aliases', () => {
+    it('treats alias hosts as the tenant host', () => {
+      const m = matcher(HR_SITE, 'site', ['Intranet.Contoso.com']);
+      const result = m.match('https://intranet.contoso.com/sites/hr/SitePages/Home.aspx');
+
+      expect(result.isSharePointSite).toBe(true);
+      expect(result.isCurrent).toBe(true);
+      expect(result.siteKey).toBe('contoso.sharepoint.com/sites/hr');
+    });
+
+    it('classifies other hosts as external', () => {
+      const result = matcher(HR_SITE).match('https://fabrikam.sharepoint.com/sites/hr');
+
+      expect(result.isSharePointSite).toBe(false);
+      expect(result.isCurrent).toBe(false);
+    });
+  });
+
+  describe('normalisation', () => {
+    it('ignores case, trailing slashes and URL encoding', () => {
+      const m = matcher(HR_SITE);
+
+      expect(m.match('https://Contoso.SharePoint.com/Sites/HR/').isCurrent).toBe(true);
+      expect(m.urlKey(`${HOST}/sites/hr/Shared%20Documents/`)).toBe('contoso.sharepoint.com/sites/hr/shared documents');
+    });
+
+    it('resolves relative links against the current web', () => {
+      expect(matcher(POLICIES_WEB).urlKey('SitePages/Leave.aspx')).toBe('contoso.sharepoint.com/sites/hr/policies/sitepages/leave.aspx');
+    });
+
+    it('cannot resolve anchors and non-HTTP links', () => {
+      const m = matcher(HR_SITE);
+
+      expect(m.match('#top').reason).toBe('unresolvable href');
+      expect(m.match('mailto:hr@contoso.com').isCurrent).toBe(false);
+      expect(m.match('javascript:void(0)').siteKey).toBe('');
+    });
+  });
+});